@@ -0,0 +1,3 @@
+import { createHandlerFromEnv } from '../server/handler';
+
+export const GET = createHandlerFromEnv();
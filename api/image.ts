@@ -0,0 +1,4 @@
+import { createHandlerFromEnv } from '../server/handler';
+
+// /api/image/owner/repo/... is rewritten here with the card path in ?path=; see vercel.json.
+export const GET = createHandlerFromEnv();
@@ -0,0 +1,188 @@
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import {
+  ALIGNMENTS,
+  CARD_THEMES,
+  GITHUB_URL,
+  METADATA_TYPES,
+  OPENGRAPH_ENDPOINT,
+  createGitHubApiProvider,
+  getFormats,
+  renderSnippets,
+  resolveTarget,
+  splitTargets,
+  validateHostProfile,
+  type Alignment,
+  type CardTheme,
+  type CodeData,
+  type HostProfile,
+  type SnippetOptions,
+} from '../src/lib';
+
+const FORMATS = [...getFormats().map((format) => format.id), 'json'];
+
+const USAGE = `Usage: github-card [options] [targets...]
+
+Targets are GitHub URLs or short forms such as owner/repo, owner/repo#123
+and owner/repo@v1.2.0. With no targets and no --input, targets are read
+from stdin, one per line. Blank lines and lines starting with # are skipped.
+
+Options:
+  -f, --format <format>  ${FORMATS.join(', ')} (default: markdown)
+  -i, --input <file>     read targets from a file, or - for stdin
+      --alt <template>   alt text, e.g. "{owner}/{repo}{ref}"
+      --width <px>       image width
+      --height <px>      image height
+      --scale <percent>  image size relative to 1200x600, ignored with --width/--height
+      --align <side>     ${ALIGNMENTS.join(', ')}
+      --same-tab         don't open links in a new tab
+      --noopener         add rel="noopener" to HTML links
+      --host <url>       GitHub instance, e.g. https://github.example.com (default: ${GITHUB_URL})
+      --image-endpoint <template>
+                         OpenGraph endpoint, e.g. https://og.example.com/{path}
+      --svg              embed locally rendered SVG cards instead of OpenGraph images
+      --theme <theme>    SVG card theme: ${CARD_THEMES.join(', ')} (default: dark)
+      --metadata         fetch titles, state, labels and stats from the GitHub API
+                         for the markdown-card and html-card formats and {title}
+      --token <token>    GitHub API token (default: $GITHUB_TOKEN)
+      --api-url <url>    GitHub API root (default: the host's REST API)
+  -h, --help             show this help`;
+
+interface Card extends CodeData {
+  target: string;
+}
+
+const readStdin = async (): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const fail = (message: string): never => {
+  process.stderr.write(`github-card: ${message}\n`);
+  process.exit(1);
+};
+
+const parsePositive = (name: string, value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0 ? num : fail(`--${name} must be a positive number, got "${value}"`);
+};
+
+async function main() {
+  let values;
+  let positionals;
+  try {
+    ({ values, positionals } = parseArgs({
+      allowPositionals: true,
+      options: {
+        format: { type: 'string', short: 'f', default: 'markdown' },
+        input: { type: 'string', short: 'i' },
+        alt: { type: 'string' },
+        width: { type: 'string' },
+        height: { type: 'string' },
+        scale: { type: 'string' },
+        align: { type: 'string' },
+        'same-tab': { type: 'boolean' },
+        noopener: { type: 'boolean' },
+        host: { type: 'string', default: GITHUB_URL },
+        'image-endpoint': { type: 'string', default: OPENGRAPH_ENDPOINT },
+        svg: { type: 'boolean' },
+        theme: { type: 'string', default: 'dark' },
+        metadata: { type: 'boolean' },
+        token: { type: 'string' },
+        'api-url': { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    }));
+  } catch (err) {
+    return fail(`${(err as Error).message}\n\n${USAGE}`);
+  }
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+
+  const format = values.format;
+  if (!FORMATS.includes(format)) {
+    return fail(`unknown format "${values.format}", expected one of ${FORMATS.join(', ')}`);
+  }
+
+  const align = values.align as Alignment | undefined;
+  if (align && !ALIGNMENTS.includes(align)) {
+    return fail(`unknown alignment "${align}", expected one of ${ALIGNMENTS.join(', ')}`);
+  }
+
+  const options: SnippetOptions = {
+    alt: values.alt,
+    width: parsePositive('width', values.width),
+    height: parsePositive('height', values.height),
+    scale: parsePositive('scale', values.scale),
+    align,
+    newTab: !values['same-tab'],
+    noopener: values.noopener,
+  };
+
+  const host: HostProfile = {
+    baseUrl: values.host,
+    image: values.svg
+      ? { kind: 'svg', theme: values.theme as CardTheme }
+      : { kind: 'opengraph', endpoint: values['image-endpoint'] },
+  };
+  const hostError = validateHostProfile(host);
+  if (hostError) return fail(hostError);
+
+  const targets = [...positionals];
+  if (values.input === '-' || (!values.input && targets.length === 0)) {
+    if (process.stdin.isTTY) return fail(`no targets given\n\n${USAGE}`);
+    targets.push(...splitTargets(await readStdin()));
+  } else if (values.input) {
+    try {
+      targets.push(...splitTargets(await readFile(values.input, 'utf8')));
+    } catch (err) {
+      return fail(`cannot read ${values.input}: ${(err as Error).message}`);
+    }
+  }
+
+  if (targets.length === 0) return fail('no targets given');
+
+  const provider = values.metadata
+    ? createGitHubApiProvider({ host, token: values.token ?? process.env.GITHUB_TOKEN, apiUrl: values['api-url'] })
+    : undefined;
+
+  const cards: Card[] = [];
+  const errors: string[] = [];
+  for (const target of targets) {
+    const result = resolveTarget(target, options, host);
+    if (!result.ok) {
+      errors.push(`${target}: ${result.error}`);
+      continue;
+    }
+
+    let { code } = result;
+    // Metadata only enriches the output, so a failed lookup is a warning rather than an error.
+    if (provider && METADATA_TYPES.includes(result.data.type)) {
+      const metadata = await provider.getMetadata(result.data);
+      if (metadata.ok) {
+        code = renderSnippets({ ...result, metadata: metadata.metadata }, options);
+      } else {
+        process.stderr.write(`github-card: ${target}: ${metadata.error}\n`);
+      }
+    }
+    cards.push({ target, ...code });
+  }
+
+  if (errors.length > 0) return fail(`invalid target${errors.length > 1 ? 's' : ''}:\n  ${errors.join('\n  ')}`);
+
+  if (format === 'json') {
+    process.stdout.write(`${JSON.stringify(cards, null, 2)}\n`);
+    return;
+  }
+
+  // Snippets that span several lines, like rST directives, get a blank line between them.
+  const separator = cards.some((card) => card[format].includes('\n')) ? '\n\n' : '\n';
+  process.stdout.write(`${cards.map((card) => card[format]).join(separator)}\n`);
+}
+
+main().catch((err: Error) => fail(err.message));
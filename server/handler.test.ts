@@ -0,0 +1,213 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { startTestServer, type TestServer } from '../test/testServer';
+import type { HostProfile } from '../src/lib';
+import { createHandler, createHandlerFromEnv, type Handler } from './handler';
+
+/** Serves `handler` over HTTP, the way a Node adapter would. */
+const serve = (handler: Handler) =>
+  startTestServer(async (req, res) => {
+    const response = await handler(new Request(`http://localhost${req.url}`, { method: req.method }));
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(Buffer.from(await response.arrayBuffer()));
+  });
+
+const CARD_CACHE = 'public, max-age=3600, s-maxage=86400';
+const IMAGE = 'https://opengraph.githubassets.com/b6a06c2c07355775735f11a24ef1d78d281fed7ede1bb44404de8b132b2ef3a2/octocat/Hello-World/issues/1';
+
+describe('on github.com', () => {
+  // Stands in for opengraph.githubassets.com; the handler's fetch sends image requests here.
+  let upstream: TestServer;
+  let api: TestServer;
+  let unreachable = false;
+
+  beforeAll(async () => {
+    upstream = await startTestServer((req, res) => {
+      if (req.url?.endsWith('/issues/500')) {
+        res.writeHead(500).end();
+      } else {
+        res.writeHead(200, { 'content-type': 'image/png' }).end(`image ${req.url}`);
+      }
+    });
+    const toUpstream: typeof fetch = (input) => {
+      if (unreachable) return Promise.reject(new Error('connect ECONNREFUSED'));
+      const { pathname } = new URL(String(input));
+      return fetch(new URL(pathname, upstream.url));
+    };
+    api = await serve(createHandler({ fetch: toUpstream }));
+  });
+
+  afterAll(async () => {
+    await api.close();
+    await upstream.close();
+  });
+
+  const get = (path: string, init?: RequestInit) => fetch(`${api.url}${path}`, init);
+
+  describe('/api/card', () => {
+    it('returns one snippet as text', async () => {
+      const response = await get('/api/card?url=octocat/Hello-World%231&format=markdown');
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('text/plain; charset=utf-8');
+      expect(response.headers.get('cache-control')).toBe(CARD_CACHE);
+      expect(response.headers.get('access-control-allow-origin')).toBe('*');
+      expect(await response.text()).toBe(
+        `[![octocat/Hello-World#1](${IMAGE})](https://github.com/octocat/Hello-World/issues/1)`,
+      );
+    });
+
+    it('returns every snippet as JSON, with snippet options applied', async () => {
+      const url = encodeURIComponent('https://github.com/octocat/Hello-World/issues/1');
+      const response = await get(`/api/card?url=${url}&format=json&width=600&sameTab`);
+      expect(response.headers.get('content-type')).toBe('application/json; charset=utf-8');
+      const body = (await response.json()) as { imageUrl: string; code: Record<string, string> };
+      expect(body.imageUrl).toBe(IMAGE);
+      expect(body.code.html).toBe(
+        `<a href="https://github.com/octocat/Hello-World/issues/1"><img src="${IMAGE}" alt="octocat/Hello-World#1" width="600" /></a>`,
+      );
+    });
+
+    it.each([
+      ['/api/card', 'Missing url parameter, e.g. /api/card?url=octocat/Hello-World'],
+      ['/api/card?url=https://github.com/settings', '/settings pages are not supported'],
+      ['/api/card?url=octocat/Hello-World%230', 'Issue number must be a positive integer'],
+      ['/api/card?url=octocat/Hello-World&format=pdf', expect.stringMatching(/^Unknown format "pdf", expected one of url, markdown/)],
+      ['/api/card?url=octocat/Hello-World&width=wide', 'width must be a positive number, got "wide"'],
+      ['/api/card?url=octocat/Hello-World&scale=-1', 'scale must be a positive number, got "-1"'],
+      ['/api/card?url=octocat/Hello-World&align=middle', 'Unknown alignment "middle", expected one of left, center, right'],
+    ])('rejects %s with 400', async (path, error) => {
+      const response = await get(path);
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error });
+    });
+  });
+
+  describe('/api/image', () => {
+    it('redirects to the card image', async () => {
+      const response = await get('/api/image/octocat/Hello-World/issues/1', { redirect: 'manual' });
+      expect(response.status).toBe(302);
+      expect(response.headers.get('location')).toBe(IMAGE);
+      expect(response.headers.get('cache-control')).toBe('public, max-age=300, s-maxage=3600');
+    });
+
+    it('takes the card path as ?path=, as the Vercel rewrite passes it', async () => {
+      const response = await get('/api/image?path=octocat/Hello-World/issues/1', { redirect: 'manual' });
+      expect(response.headers.get('location')).toBe(IMAGE);
+    });
+
+    it('proxies the image with long-lived cache headers', async () => {
+      const response = await get('/api/image/octocat/Hello-World/issues/1?proxy=1');
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('image/png');
+      expect(response.headers.get('cache-control')).toBe(
+        'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800',
+      );
+      expect(await response.text()).toBe(`image ${new URL(IMAGE).pathname}`);
+    });
+
+    it('answers 502 when the upstream image fails', async () => {
+      const failed = await get('/api/image/octocat/Hello-World/issues/500?proxy=1');
+      expect(failed.status).toBe(502);
+      expect(await failed.json()).toEqual({ error: 'Image request failed with status 500' });
+
+      unreachable = true;
+      try {
+        const offline = await get('/api/image/octocat/Hello-World/issues/1?proxy=1');
+        expect(offline.status).toBe(502);
+        expect(await offline.json()).toEqual({ error: 'Image request failed: connect ECONNREFUSED' });
+      } finally {
+        unreachable = false;
+      }
+    });
+
+    it('rejects invalid card paths with 400', async () => {
+      const missing = await get('/api/image');
+      expect(missing.status).toBe(400);
+      expect(await missing.json()).toEqual({ error: 'Missing card path, e.g. /api/image/octocat/Hello-World/issues/1' });
+
+      const invalid = await get('/api/image/octocat/Hello-World/issues/abc');
+      expect(invalid.status).toBe(400);
+    });
+  });
+
+  it('answers other methods with 405', async () => {
+    const response = await get('/api/card?url=octocat/Hello-World', { method: 'POST' });
+    expect(response.status).toBe(405);
+    expect(response.headers.get('allow')).toBe('GET, HEAD');
+    expect(await response.json()).toEqual({ error: 'Method not allowed' });
+  });
+
+  it('answers unknown routes with 404', async () => {
+    const response = await get('/api/cards');
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'No route for /api/cards' });
+  });
+});
+
+describe('on a custom host', () => {
+  // Stands in for a GitHub Enterprise Server instance and its card images.
+  let ghes: TestServer;
+  let api: TestServer;
+  let host: HostProfile;
+
+  beforeAll(async () => {
+    ghes = await startTestServer((req, res) => {
+      res.writeHead(200, { 'content-type': 'image/png' }).end(`card for ${req.url}`);
+    });
+    host = { baseUrl: ghes.url, image: { kind: 'opengraph', endpoint: `${ghes.url}/og/{path}` } };
+    api = await serve(createHandler({ host }));
+  });
+
+  afterAll(async () => {
+    await api.close();
+    await ghes.close();
+  });
+
+  it('reads links on the host and builds snippets for it', async () => {
+    const target = encodeURIComponent(`${ghes.url}/octocat/Hello-World/pull/2`);
+    const response = await fetch(`${api.url}/api/card?url=${target}&format=json`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      githubUrl: `${ghes.url}/octocat/Hello-World/pull/2`,
+      imageUrl: `${ghes.url}/og/octocat/Hello-World/pull/2`,
+      data: { type: 'pull-request', user: 'octocat', repo: 'Hello-World', num: 2 },
+    });
+  });
+
+  it('rejects github.com links', async () => {
+    const response = await fetch(`${api.url}/api/card?url=https://github.com/octocat/Hello-World`);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: expect.stringMatching(/^Only localhost URLs are supported/) });
+  });
+
+  it('redirects to and proxies images from the host', async () => {
+    const redirect = await fetch(`${api.url}/api/image/octocat/Hello-World/issues/1`, { redirect: 'manual' });
+    expect(redirect.status).toBe(302);
+    expect(redirect.headers.get('location')).toBe(`${ghes.url}/og/octocat/Hello-World/issues/1`);
+
+    const proxied = await fetch(`${api.url}/api/image/octocat/Hello-World/issues/1?proxy=1`);
+    expect(proxied.status).toBe(200);
+    expect(await proxied.text()).toBe('card for /og/octocat/Hello-World/issues/1');
+  });
+
+  it('renders SVG cards when the host has no image endpoint', async () => {
+    const svgApi = await serve(createHandler({ host: { baseUrl: ghes.url, image: { kind: 'svg', theme: 'dark' } } }));
+    try {
+      const response = await fetch(`${svgApi.url}/api/image/octocat/Hello-World`);
+      expect(response.headers.get('content-type')).toBe('image/svg+xml; charset=utf-8');
+      expect(await response.text()).toMatch(/^<svg[^>]*>/);
+    } finally {
+      await svgApi.close();
+    }
+  });
+});
+
+describe('createHandlerFromEnv', () => {
+  it('leaves metadata off unless ENABLE_METADATA is set', async () => {
+    // Without a provider the handler never calls the API, so this answers without network access.
+    const response = await createHandlerFromEnv({ GITHUB_TOKEN: 'ghp_secret' })(
+      new Request('http://localhost/api/card?url=octocat/Hello-World&format=json&metadata=1'),
+    );
+    expect(response.status).toBe(200);
+    expect(await response.json()).not.toHaveProperty('metadata');
+  });
+});
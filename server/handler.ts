@@ -0,0 +1,176 @@
+import {
+  ALIGNMENTS,
+  GITHUB_HOST,
+  METADATA_TYPES,
+  createGitHubApiProvider,
+  generateCard,
+  getFormat,
+  getFormats,
+  hostBaseUrl,
+  hostName,
+  parseGitHubUrl,
+  renderSvgCard,
+  type Alignment,
+  type CardMetadata,
+  type HostProfile,
+  type MetadataProvider,
+  type SnippetOptions,
+} from '../src/lib';
+
+export interface HandlerOptions {
+  host?: HostProfile;
+  /** Used to proxy images. */
+  fetch?: typeof fetch;
+  /** Enables `metadata=1` on `/api/card`. */
+  metadata?: MetadataProvider;
+}
+
+export type Handler = (request: Request) => Promise<Response>;
+
+// Redirects are kept short so a change of image endpoint rolls out quickly.
+const CARD_CACHE = 'public, max-age=3600, s-maxage=86400';
+const REDIRECT_CACHE = 'public, max-age=300, s-maxage=3600';
+const IMAGE_CACHE = 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800';
+
+const FORMATS = () => [...getFormats().map((format) => format.id), 'json'];
+
+type Body = ConstructorParameters<typeof Response>[0];
+
+const respond = (body: Body, status: number, headers: Record<string, string>) =>
+  new Response(body, { status, headers: { 'access-control-allow-origin': '*', ...headers } });
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  respond(`${JSON.stringify(body, null, 2)}\n`, status, { 'content-type': 'application/json; charset=utf-8', ...headers });
+
+const fail = (status: number, error: string) => json({ error }, status);
+
+type OptionsResult = { ok: true; options: SnippetOptions } | { ok: false; error: string };
+
+/** Reads `alt`, `width`, `height`, `scale`, `align`, `sameTab` and `noopener`, as the CLI does. */
+function readSnippetOptions(params: URLSearchParams): OptionsResult {
+  const options: SnippetOptions = {
+    alt: params.get('alt') ?? undefined,
+    newTab: !params.has('sameTab'),
+    noopener: params.has('noopener'),
+  };
+
+  for (const name of ['width', 'height', 'scale'] as const) {
+    const value = params.get(name);
+    if (value === null) continue;
+    const num = Number(value);
+    if (!Number.isFinite(num) || num <= 0) return { ok: false, error: `${name} must be a positive number, got "${value}"` };
+    options[name] = num;
+  }
+
+  const align = params.get('align');
+  if (align !== null) {
+    if (!ALIGNMENTS.includes(align as Alignment)) {
+      return { ok: false, error: `Unknown alignment "${align}", expected one of ${ALIGNMENTS.join(', ')}` };
+    }
+    options.align = align as Alignment;
+  }
+
+  return { ok: true, options };
+}
+
+/** `/api/card?url=owner/repo#1&format=markdown` returns one snippet as text, or every snippet with `format=json`. */
+async function handleCard(url: URL, { host = GITHUB_HOST, metadata: provider }: HandlerOptions): Promise<Response> {
+  const target = url.searchParams.get('url');
+  if (!target) return fail(400, 'Missing url parameter, e.g. /api/card?url=octocat/Hello-World');
+
+  const format = url.searchParams.get('format') ?? 'markdown';
+  if (format !== 'json' && !getFormat(format)) {
+    return fail(400, `Unknown format "${format}", expected one of ${FORMATS().join(', ')}`);
+  }
+
+  const read = readSnippetOptions(url.searchParams);
+  if (!read.ok) return fail(400, read.error);
+
+  const parsed = parseGitHubUrl(target, host);
+  if (!parsed.ok) return fail(400, parsed.error);
+
+  let metadata: CardMetadata | undefined;
+  if (provider && url.searchParams.has('metadata') && METADATA_TYPES.includes(parsed.data.type)) {
+    const result = await provider.getMetadata(parsed.data);
+    if (result.ok) metadata = result.metadata;
+  }
+
+  const card = generateCard(parsed.data, read.options, host, metadata);
+  if (!card.ok) return fail(400, card.errors.map((e) => e.message).join(', '));
+
+  if (format === 'json') {
+    const { imageUrl, githubUrl, data, code } = card;
+    return json({ imageUrl, githubUrl, data, metadata, code }, 200, { 'cache-control': CARD_CACHE });
+  }
+  return respond(card.code[format], 200, { 'content-type': 'text/plain; charset=utf-8', 'cache-control': CARD_CACHE });
+}
+
+/**
+ * `/api/image/owner/repo/issues/1` redirects to the card image, or streams it
+ * with `?proxy=1`. Hosts that render SVG cards locally always get the SVG.
+ */
+async function handleImage(
+  path: string,
+  url: URL,
+  { host = GITHUB_HOST, fetch: fetchImpl = fetch }: HandlerOptions,
+): Promise<Response> {
+  if (!path) return fail(400, 'Missing card path, e.g. /api/image/octocat/Hello-World/issues/1');
+
+  const parsed = parseGitHubUrl(`${hostBaseUrl(host)}/${path}`, host);
+  if (!parsed.ok) return fail(400, parsed.error);
+
+  const card = generateCard(parsed.data, {}, host);
+  if (!card.ok) return fail(400, card.errors.map((e) => e.message).join(', '));
+
+  if (host.image.kind === 'svg') {
+    const svg = renderSvgCard(card.data, { theme: host.image.theme, host: hostName(host) });
+    return respond(svg, 200, { 'content-type': 'image/svg+xml; charset=utf-8', 'cache-control': IMAGE_CACHE });
+  }
+
+  if (!url.searchParams.has('proxy')) {
+    return respond(null, 302, { location: card.imageUrl, 'cache-control': REDIRECT_CACHE });
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetchImpl(card.imageUrl);
+  } catch (err) {
+    return fail(502, `Image request failed: ${(err as Error).message}`);
+  }
+  if (!upstream.ok) return fail(502, `Image request failed with status ${upstream.status}`);
+
+  return respond(upstream.body, 200, {
+    'content-type': upstream.headers.get('content-type') ?? 'image/png',
+    'cache-control': IMAGE_CACHE,
+  });
+}
+
+/**
+ * Routes `/api/card` and `/api/image/...` requests. The card path may also
+ * arrive as `?path=`, which is how the rewrite in `vercel.json` passes it on.
+ */
+export function createHandler(options: HandlerOptions = {}): Handler {
+  return async (request) => {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      return json({ error: 'Method not allowed' }, 405, { allow: 'GET, HEAD' });
+    }
+
+    const url = new URL(request.url);
+    const pathname = url.pathname.replace(/\/+$/, '');
+    if (pathname === '/api/card') return handleCard(url, options);
+    if (pathname === '/api/image' || pathname.startsWith('/api/image/')) {
+      const path = pathname.slice('/api/image/'.length) || url.searchParams.get('path') || '';
+      return handleImage(path, url, options);
+    }
+    return fail(404, `No route for ${url.pathname}`);
+  };
+}
+
+/**
+ * The handler as deployed: github.com, with `metadata=1` only when `ENABLE_METADATA=1`, since
+ * every public request can spend the API rate limit of `GITHUB_TOKEN`, which authenticates it when set.
+ */
+export function createHandlerFromEnv(env: Record<string, string | undefined> = process.env): Handler {
+  if (env.ENABLE_METADATA !== '1') return createHandler();
+  return createHandler({ metadata: createGitHubApiProvider({ token: env.GITHUB_TOKEN || undefined }) });
+}
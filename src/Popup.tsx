@@ -0,0 +1,89 @@
+import { useMemo } from 'react';
+import { ExternalLink, Github } from 'lucide-react';
+import { generateCard, getFormat, getFormats, hostForPage, serializeCardState } from './lib';
+import CardForm from './components/CardForm';
+import CardPreview from './components/CardPreview';
+import CopyButton from './components/CopyButton';
+import { useCardForm } from './hooks/useCardForm';
+import { useDebouncedValue } from './hooks/useDebouncedValue';
+import { useHostProfile } from './hooks/useHostProfile';
+import { usePreferredFormat } from './hooks/usePreferredFormat';
+
+interface PopupProps {
+  /** The page the popup was opened for, from the bookmarklet or the extension's active tab. */
+  pageUrl: string;
+  /** The full web app, linked with the card filled in. */
+  appUrl: string;
+}
+
+function Popup({ pageUrl, appUrl }: PopupProps) {
+  // The extension can't see the site's saved host and has no host setting, so pages on other instances bring their own.
+  const [savedHost] = useHostProfile();
+  const host = useMemo(() => hostForPage(pageUrl, savedHost), [pageUrl, savedHost]);
+  const form = useCardForm(host, { url: pageUrl });
+  const [format, setFormat] = usePreferredFormat();
+
+  const { formData } = form;
+  const settled = useDebouncedValue(formData, 300);
+  const result = generateCard(settled, {}, host);
+  const fullAppUrl = result.ok ? `${appUrl}?${serializeCardState({ data: settled, format, host })}` : appUrl;
+
+  return (
+    <div className="w-[420px] min-h-full bg-gray-900 text-white p-4">
+      <header className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Github className="w-5 h-5 text-lime-400" />
+          <h1 className="text-lg font-bold text-lime-400">GitHub Card Creator</h1>
+        </div>
+        <a
+          href={fullAppUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-xs text-gray-400 hover:text-lime-400"
+        >
+          Open full app <ExternalLink className="w-3 h-3" />
+        </a>
+      </header>
+
+      <CardForm
+        formData={formData}
+        url={form.url}
+        urlError={form.urlError}
+        errors={result.ok ? [] : form.visibleErrors(result.errors, settled)}
+        onUrlChange={form.changeUrl}
+        onFieldChange={form.setField}
+        onFieldBlur={form.touch}
+        compact
+      />
+
+      {result.ok && (
+        <div className="mt-4 space-y-4">
+          <CardPreview
+            key={result.imageUrl}
+            imageUrl={result.imageUrl}
+            githubUrl={result.githubUrl}
+          />
+
+          <div className="flex items-center justify-between gap-3">
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value)}
+              aria-label="Format"
+              className="flex-1 px-3 py-1 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white focus:outline-none focus:border-lime-400"
+            >
+              {getFormats().map(({ id, label }) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
+            <CopyButton text={result.code[format] ?? ''} label={`Copy ${getFormat(format)?.label ?? format}`} />
+          </div>
+          <div className="flex justify-end">
+            <CopyButton text={result.githubUrl} html={result.code['html-card']} label="Copy as rich text" />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default Popup;
@@ -0,0 +1,235 @@
+import { useRef, useState } from 'react';
+import { AlertCircle, ArrowDown, ArrowUp, Loader2, RotateCw, X } from 'lucide-react';
+import {
+  BATCH_FORMATS,
+  renderBatch,
+  resolveTarget,
+  retryImageUrl,
+  splitTargets,
+  type BatchFormat,
+  type HostProfile,
+  type SnippetOptions,
+} from '../lib';
+import CopyButton from './CopyButton';
+
+type RowStatus = 'loading' | 'loaded' | 'failed';
+
+interface BatchRow {
+  id: number;
+  target: string;
+  status: RowStatus;
+  /** The image `status` was reported for; a new one, e.g. after a host change, starts loading again. */
+  statusUrl: string;
+  attempt: number;
+}
+
+interface BatchModeProps {
+  options: SnippetOptions;
+  host: HostProfile;
+}
+
+function BatchMode({ options, host }: BatchModeProps) {
+  const [input, setInput] = useState<string>('');
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [format, setFormat] = useState<BatchFormat>('markdown');
+  const [columns, setColumns] = useState<number>(2);
+  const nextId = useRef<number>(0);
+
+  const addTargets = () => {
+    const added = splitTargets(input).map((target): BatchRow => ({
+      id: nextId.current++,
+      target,
+      status: 'loading',
+      statusUrl: '',
+      attempt: 0,
+    }));
+    setRows(prev => [...prev, ...added]);
+    setInput('');
+  };
+
+  const setStatus = (id: number, status: RowStatus, statusUrl: string) => {
+    setRows(prev => prev.map(row => (row.id === id ? { ...row, status, statusUrl } : row)));
+  };
+
+  const retryRow = (id: number) => {
+    setRows(prev => prev.map(row => (row.id === id ? { ...row, status: 'loading', attempt: row.attempt + 1 } : row)));
+  };
+
+  const removeRow = (id: number) => {
+    setRows(prev => prev.filter(row => row.id !== id));
+  };
+
+  const moveRow = (index: number, offset: number) => {
+    setRows(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  // Resolved on every render so changes to the host apply to cards already in the list.
+  const resolved = rows.map(row => {
+    const result = resolveTarget(row.target, options, host);
+    const imageUrl = result.ok ? result.imageUrl : '';
+    return { ...row, result, imageUrl, status: imageUrl === row.statusUrl ? row.status : 'loading' };
+  });
+
+  // Rows that failed validation or whose image failed to load are left out of the snippet.
+  const cards = resolved.flatMap(row => (row.result.ok && row.status !== 'failed' ? [row.result] : []));
+  const snippet = renderBatch(cards, format, options, columns);
+
+  return (
+    <>
+      <div className="bg-gray-800 rounded-2xl p-8 mb-8 shadow-xl">
+        <h2 className="text-2xl font-semibold mb-6 text-lime-400">Add Cards</h2>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          GitHub URLs, one per line
+        </label>
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          rows={5}
+          placeholder={'https://github.com/octocat/Hello-World\noctocat/Hello-World#1\noctocat/Hello-World@v1.0.0'}
+          className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-xl text-white placeholder-gray-400 font-mono text-sm focus:outline-none focus:border-lime-400 focus:ring-2 focus:ring-lime-400/20 transition-all duration-200"
+        />
+        <div className="mt-4 flex justify-end gap-3">
+          {rows.length > 0 && (
+            <button
+              onClick={() => setRows([])}
+              className="px-4 py-2 rounded-xl border-2 border-gray-600 text-gray-300 hover:border-gray-500 transition-colors duration-200"
+            >
+              Clear all
+            </button>
+          )}
+          <button
+            onClick={addTargets}
+            disabled={splitTargets(input).length === 0}
+            className="px-4 py-2 rounded-xl border-2 border-lime-400 bg-lime-400/10 text-lime-400 hover:bg-lime-400/20 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add cards
+          </button>
+        </div>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="bg-gray-800 rounded-2xl p-8 mb-8 shadow-xl">
+          <h2 className="text-2xl font-semibold mb-6 text-lime-400">Preview</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {resolved.map((row, index) => (
+              <div key={row.id} className="bg-gray-900 rounded-xl p-4 border border-gray-700">
+                <div className="flex items-center justify-between gap-2 mb-3">
+                  <code className="text-xs text-gray-400 truncate" title={row.target}>{row.target}</code>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => moveRow(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Move up"
+                      className="p-1 rounded text-gray-400 hover:text-lime-400 disabled:opacity-30"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveRow(index, 1)}
+                      disabled={index === rows.length - 1}
+                      aria-label="Move down"
+                      className="p-1 rounded text-gray-400 hover:text-lime-400 disabled:opacity-30"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => removeRow(row.id)}
+                      aria-label="Remove"
+                      className="p-1 rounded text-gray-400 hover:text-red-400"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {row.result.ok ? (
+                  <>
+                    {row.status === 'loading' && (
+                      <div className="flex items-center gap-2 text-sm text-gray-400 mb-2">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        <span>Loading card…</span>
+                      </div>
+                    )}
+                    {row.status === 'failed' ? (
+                      <div className="flex items-center justify-between gap-2 text-sm text-red-400">
+                        <div className="flex items-center gap-2">
+                          <AlertCircle className="w-4 h-4 shrink-0" />
+                          <span>Failed to load image. Please check if the target exists.</span>
+                        </div>
+                        <button
+                          onClick={() => retryRow(row.id)}
+                          className="flex items-center gap-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs font-medium text-gray-200 transition-colors shrink-0"
+                        >
+                          <RotateCw className="w-3 h-3" />
+                          Retry
+                        </button>
+                      </div>
+                    ) : (
+                      <img
+                        key={row.attempt}
+                        src={retryImageUrl(row.imageUrl, row.attempt)}
+                        alt={row.target}
+                        onLoad={() => setStatus(row.id, 'loaded', row.imageUrl)}
+                        onError={() => setStatus(row.id, 'failed', row.imageUrl)}
+                        className={`rounded-lg max-w-full h-auto ${row.status === 'loading' ? 'hidden' : ''}`}
+                      />
+                    )}
+                  </>
+                ) : (
+                  <div className="flex items-center gap-2 text-sm text-red-400">
+                    <AlertCircle className="w-4 h-4" />
+                    <span>{row.result.error}</span>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {cards.length > 0 && (
+        <div className="bg-gray-800 rounded-2xl p-8 shadow-xl">
+          <h2 className="text-2xl font-semibold mb-6 text-lime-400">Combined Code</h2>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as BatchFormat)}
+                className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white focus:outline-none focus:border-lime-400"
+              >
+                {BATCH_FORMATS.map((option) => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+              {format === 'markdown-table' && (
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                  Columns
+                  <input
+                    type="number"
+                    min={1}
+                    max={6}
+                    value={columns}
+                    onChange={(e) => setColumns(Math.min(6, Math.max(1, Number(e.target.value) || 1)))}
+                    className="w-16 px-2 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-lime-400"
+                  />
+                </label>
+              )}
+            </div>
+            <CopyButton text={snippet} />
+          </div>
+          <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
+            <pre className="text-sm text-gray-300 whitespace-pre-wrap break-all"><code>{snippet}</code></pre>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default BatchMode;
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+import { Bookmark } from 'lucide-react';
+import { createBookmarklet } from '../lib';
+
+// React warns about `javascript:` URLs in `href`, so the link gets it directly.
+function Bookmarklet() {
+  const link = useRef<HTMLAnchorElement>(null);
+
+  useEffect(() => {
+    link.current?.setAttribute('href', createBookmarklet(new URL('.', window.location.href).href));
+  }, []);
+
+  return (
+    <div className="bg-gray-800 rounded-2xl p-8 mt-8 shadow-xl text-center">
+      <p className="text-sm text-gray-400 mb-4">
+        Drag this button to your bookmarks bar, then click it on any GitHub page to open a card for it.
+        The browser extension from <code className="text-gray-300">npm run build:extension</code> does the same from the toolbar.
+      </p>
+      <a
+        ref={link}
+        onClick={(e) => e.preventDefault()}
+        className="inline-flex items-center gap-2 px-4 py-2 rounded-xl border-2 border-lime-400 bg-lime-400/10 text-lime-400 font-medium cursor-grab"
+      >
+        <Bookmark className="w-4 h-4" />
+        Card this page
+      </a>
+    </div>
+  );
+}
+
+export default Bookmarklet;
@@ -0,0 +1,148 @@
+import { AlertCircle, Link } from 'lucide-react';
+import { useId } from 'react';
+import { CARD_TYPES, getCardType, type CardType, type FormData, type ValidationError } from '../lib';
+import { inputBaseClass } from './styles';
+
+interface CardFormProps {
+  formData: FormData;
+  url: string;
+  urlError: string;
+  /** Shown under the field each one belongs to. */
+  errors: ValidationError[];
+  onUrlChange: (value: string) => void;
+  onFieldChange: (field: keyof FormData, value: string) => void;
+  onFieldBlur?: (field: keyof FormData) => void;
+  /** Picks the type from a menu instead of a button grid, for the extension popup. */
+  compact?: boolean;
+}
+
+const errorClass = 'border-red-500 focus:border-red-500 focus:ring-red-500/20';
+
+function CardForm({
+  formData,
+  url,
+  urlError,
+  errors,
+  onUrlChange,
+  onFieldChange,
+  onFieldBlur,
+  compact = false,
+}: CardFormProps) {
+  const padding = compact ? 'px-3 py-2 text-sm' : 'px-4 py-3';
+  // The popup and the app may both be on a page, so ids are scoped to the form.
+  const id = useId();
+  const describedBy = (...ids: (string | false)[]) => ids.filter(Boolean).join(' ') || undefined;
+
+  return (
+    <>
+      {/* GitHub URL */}
+      <div className={compact ? 'mb-4' : 'mb-8'}>
+        <label htmlFor={`${id}-url`} className="block text-sm font-medium text-gray-300 mb-2">
+          GitHub URL
+        </label>
+        <div className="relative">
+          <Link className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            id={`${id}-url`}
+            type="text"
+            value={url}
+            onChange={(e) => onUrlChange(e.target.value)}
+            placeholder="e.g., https://github.com/octocat/Hello-World/issues/1 or octocat/Hello-World#1"
+            aria-invalid={urlError ? true : undefined}
+            aria-describedby={describedBy(urlError !== '' && `${id}-url-error`, !compact && `${id}-url-hint`)}
+            className={`${inputBaseClass} ${padding} pl-11 ${urlError ? errorClass : ''}`}
+          />
+        </div>
+        <div id={`${id}-url-error`} aria-live="polite">
+          {urlError && (
+            <div className="mt-2 flex items-center gap-2 text-sm text-red-400">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              <span>{urlError}</span>
+            </div>
+          )}
+        </div>
+        {!compact && (
+          <p id={`${id}-url-hint`} className="mt-2 text-xs text-gray-500">
+            Paste a link to a repository, issue, pull request, discussion, release, commit, comparison, file, milestone, workflow run, profile or gist to fill in the fields below.
+          </p>
+        )}
+      </div>
+
+      {/* Card Type Selection */}
+      {compact ? (
+        <div className="mb-4">
+          <label htmlFor={`${id}-type`} className="block text-sm font-medium text-gray-300 mb-2">Card Type</label>
+          <select
+            id={`${id}-type`}
+            value={formData.type}
+            onChange={(e) => onFieldChange('type', e.target.value as CardType)}
+            className={`${inputBaseClass} ${padding}`}
+          >
+            {CARD_TYPES.map((type) => (
+              <option key={type.id} value={type.id}>{type.icon} {type.label}</option>
+            ))}
+          </select>
+        </div>
+      ) : (
+        <div className="mb-8">
+          <div id={`${id}-type`} className="block text-sm font-medium text-gray-300 mb-4">Card Type</div>
+          <div role="group" aria-labelledby={`${id}-type`} className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-3">
+            {CARD_TYPES.map((type) => (
+              <button
+                key={type.id}
+                type="button"
+                aria-pressed={formData.type === type.id}
+                onClick={() => onFieldChange('type', type.id)}
+                className={`p-4 rounded-xl text-center transition-all duration-200 border-2 ${
+                  formData.type === type.id
+                    ? 'border-lime-400 bg-lime-400/10 text-lime-400'
+                    : 'border-gray-600 bg-gray-700 text-gray-300 hover:border-gray-500'
+                }`}
+              >
+                <div className="text-2xl mb-1">{type.icon}</div>
+                <div className="text-sm font-medium">{type.label}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Input Fields */}
+      <div className={compact ? 'grid grid-cols-2 gap-3' : 'grid grid-cols-1 md:grid-cols-2 gap-6'}>
+        {getCardType(formData.type).fields.map((field) => {
+          const error = errors.find((e) => e.field === field.name);
+          const inputId = `${id}-${field.name}`;
+          return (
+            <div key={field.name}>
+              <label htmlFor={inputId} className="block text-sm font-medium text-gray-300 mb-2">
+                {field.label}
+              </label>
+              <input
+                id={inputId}
+                type="text"
+                inputMode={field.numeric ? 'numeric' : undefined}
+                value={formData[field.name] ?? ''}
+                onChange={(e) => onFieldChange(field.name, e.target.value)}
+                onBlur={() => onFieldBlur?.(field.name)}
+                placeholder={field.placeholder}
+                aria-invalid={error ? true : undefined}
+                aria-describedby={error ? `${inputId}-error` : undefined}
+                className={`${inputBaseClass} ${padding} ${error ? errorClass : ''}`}
+              />
+              <div id={`${inputId}-error`} aria-live="polite">
+                {error && (
+                  <p className="mt-2 flex items-start gap-2 text-sm text-red-400">
+                    <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                    <span>{error.message}</span>
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+}
+
+export default CardForm;
@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Loader2, RotateCw } from 'lucide-react';
+import { retryImageUrl } from '../lib';
+
+interface CardPreviewProps {
+  imageUrl: string;
+  githubUrl: string;
+  onLoad?: () => void;
+  /** Called when the image fails or times out. */
+  onError?: () => void;
+}
+
+type Status = 'loading' | 'loaded' | 'timeout' | 'failed';
+
+// opengraph.githubassets.com renders cards on demand, which can take a few seconds the first time.
+const TIMEOUT_MS = 15000;
+
+/** The card image with loading, timeout and failure states. Give it a `key` of the image URL to start over. */
+function CardPreview({ imageUrl, githubUrl, onLoad, onError }: CardPreviewProps) {
+  const [status, setStatus] = useState<Status>('loading');
+  const [attempt, setAttempt] = useState(0);
+  const callbacks = useRef({ onLoad, onError });
+  callbacks.current = { onLoad, onError };
+
+  useEffect(() => {
+    if (status !== 'loading') return;
+    const timer = setTimeout(() => {
+      setStatus('timeout');
+      callbacks.current.onError?.();
+    }, TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [status, attempt]);
+
+  const handleLoad = () => {
+    setStatus('loaded');
+    callbacks.current.onLoad?.();
+  };
+
+  const handleError = () => {
+    setStatus('failed');
+    callbacks.current.onError?.();
+  };
+
+  const retry = () => {
+    setAttempt((n) => n + 1);
+    setStatus('loading');
+  };
+
+  return (
+    <div className="text-center">
+      <div role="status" aria-live="polite">
+        {status === 'loading' && (
+          <div className="flex items-center justify-center gap-2 py-12 text-gray-400">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            <span>Loading card…</span>
+          </div>
+        )}
+        {(status === 'timeout' || status === 'failed') && (
+          <div className="flex flex-col items-center gap-3 py-8">
+            <div className="flex items-center gap-2 text-red-400">
+              <AlertCircle className="w-5 h-5 shrink-0" />
+              <span>
+                {status === 'timeout'
+                  ? 'The card is taking too long to load.'
+                  : 'Failed to load the card. Please check if the repository/issue/PR exists.'}
+              </span>
+            </div>
+            <button
+              onClick={retry}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors"
+            >
+              <RotateCw className="w-4 h-4" />
+              Retry
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Kept mounted while loading so a slow image still shows up after a timeout. */}
+      <div className={`inline-block relative ${status === 'loaded' ? '' : 'hidden'}`}>
+        <a href={githubUrl} target="_blank" rel="noopener noreferrer">
+          <img
+            key={attempt}
+            src={retryImageUrl(imageUrl, attempt)}
+            alt="GitHub Card Preview"
+            onLoad={handleLoad}
+            onError={handleError}
+            className="rounded-xl shadow-lg cursor-pointer hover:shadow-2xl transition-all duration-300 hover:scale-105 max-w-full h-auto"
+          />
+        </a>
+      </div>
+    </div>
+  );
+}
+
+export default CardPreview;
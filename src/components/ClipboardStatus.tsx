@@ -0,0 +1,96 @@
+import { useEffect, useRef } from 'react';
+import { AlertCircle, CheckCircle, X } from 'lucide-react';
+import type { ClipboardFallback } from '../hooks/useClipboard';
+import { isMac } from '../hooks/useShortcuts';
+
+interface ClipboardStatusProps {
+  toast: string;
+  fallback: ClipboardFallback | null;
+  closeFallback: (copied: boolean) => void;
+}
+
+function ClipboardStatus({ toast, fallback, closeFallback }: ClipboardStatusProps) {
+  const textarea = useRef<HTMLTextAreaElement>(null);
+  const richText = useRef<HTMLDivElement>(null);
+
+  // Select the content so a single Ctrl+C copies it; rich text is selected as rendered HTML.
+  useEffect(() => {
+    if (!fallback) return;
+    if (textarea.current) {
+      textarea.current.focus();
+      textarea.current.select();
+    }
+    if (richText.current) {
+      richText.current.focus();
+      const range = document.createRange();
+      range.selectNodeContents(richText.current);
+      window.getSelection()?.removeAllRanges();
+      window.getSelection()?.addRange(range);
+    }
+  }, [fallback]);
+
+  // The copy happens after the event, so the content has to stay until then.
+  const handleCopy = () => window.setTimeout(() => closeFallback(true));
+
+  return (
+    <>
+      {fallback && (
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="copy-fallback-title"
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+          onKeyDown={(e) => e.key === 'Escape' && closeFallback(false)}
+        >
+          <div className="w-full max-w-lg bg-gray-800 rounded-2xl p-6 shadow-xl text-left">
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div>
+                <h3 id="copy-fallback-title" className="font-semibold text-lime-400">
+                  Press {isMac ? '⌘C' : 'Ctrl+C'} to copy
+                </h3>
+                <p className="mt-1 flex items-center gap-2 text-xs text-gray-400">
+                  <AlertCircle className="w-4 h-4" />
+                  The browser blocked clipboard access: {fallback.error}
+                </p>
+              </div>
+              <button onClick={() => closeFallback(false)} aria-label="Close" className="text-gray-400 hover:text-lime-400">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            {fallback.html ? (
+              <div
+                ref={richText}
+                tabIndex={-1}
+                onCopy={handleCopy}
+                className="max-h-64 overflow-auto bg-white text-gray-900 rounded-lg p-4 focus:outline-none"
+                // Snippets are generated with every attribute escaped.
+                dangerouslySetInnerHTML={{ __html: fallback.html }}
+              />
+            ) : (
+              <textarea
+                ref={textarea}
+                readOnly
+                value={fallback.text}
+                onCopy={handleCopy}
+                rows={6}
+                className="w-full bg-gray-900 border border-gray-700 rounded-lg p-4 text-sm text-gray-300 font-mono focus:outline-none focus:border-lime-400"
+              />
+            )}
+          </div>
+        </div>
+      )}
+
+      {toast && (
+        <div
+          role="status"
+          className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 px-4 py-2 rounded-xl bg-lime-400 text-gray-900 text-sm font-medium shadow-lg"
+        >
+          <CheckCircle className="w-4 h-4" />
+          {toast}
+        </div>
+      )}
+    </>
+  );
+}
+
+export default ClipboardStatus;
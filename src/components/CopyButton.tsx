@@ -0,0 +1,43 @@
+import { useState } from 'react';
+import { Copy, CheckCircle } from 'lucide-react';
+import ClipboardStatus from './ClipboardStatus';
+import { useClipboard } from '../hooks/useClipboard';
+
+interface CopyButtonProps {
+  text: string;
+  /** Also copied as `text/html`, for pasting into rich-text editors. */
+  html?: string;
+  label?: string;
+  /** Shown next to the label, e.g. `Alt+C`. */
+  shortcut?: string;
+}
+
+function CopyButton({ text, html, label = 'Copy', shortcut }: CopyButtonProps) {
+  const [copied, setCopied] = useState<boolean>(false);
+  const clipboard = useClipboard();
+
+  const copyToClipboard = async () => {
+    if (!(await clipboard.copy({ text, html }))) return;
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <>
+      <button
+        onClick={copyToClipboard}
+        disabled={!text}
+        className="flex items-center gap-2 px-3 py-1 bg-lime-400/10 hover:bg-lime-400/20 text-lime-400 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {copied ? <CheckCircle className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+        <span className="text-sm">{copied ? 'Copied!' : label}</span>
+        {shortcut && !copied && (
+          <kbd className="text-xs text-lime-400/70 font-sans">{shortcut}</kbd>
+        )}
+      </button>
+      <ClipboardStatus {...clipboard} />
+    </>
+  );
+}
+
+export default CopyButton;
@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import {
+  CARD_THEMES,
+  DEFAULT_ALT,
+  cardFileName,
+  formatAlt,
+  getFormat,
+  getFormats,
+  hostName,
+  renderSvgCard,
+  svgDataUri,
+  type CardTheme,
+  type HostProfile,
+  type SnippetCard,
+  type SnippetOptions,
+} from '../lib';
+import { downloadBlob } from '../lib/download';
+import CopyButton from './CopyButton';
+import { inputClass } from './styles';
+
+interface FallbackCardProps {
+  card: SnippetCard;
+  options: SnippetOptions;
+  host: HostProfile;
+}
+
+function FallbackCard({ card, options, host }: FallbackCardProps) {
+  const [theme, setTheme] = useState<CardTheme>('dark');
+  const [title, setTitle] = useState<string>('');
+  const [description, setDescription] = useState<string>('');
+  const [format, setFormat] = useState<string>('markdown');
+  const [filePath, setFilePath] = useState<string>(() => `./${cardFileName(card.data, 'svg')}`);
+
+  const svg = renderSvgCard(card.data, { theme, title, description, host: hostName(host) });
+  const dataUri = svgDataUri(svg);
+  const renderer = getFormat(format) ?? getFormats()[0];
+  const embedded = renderer.render({ ...card, imageUrl: dataUri }, options);
+  const linked = renderer.render({ ...card, imageUrl: filePath }, options);
+
+  const handleDownload = () => {
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), cardFileName(card.data, 'svg'));
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-2xl p-8 mb-8 shadow-xl">
+      <h2 className="text-2xl font-semibold mb-2 text-lime-400">Local Card</h2>
+      <p className="text-sm text-gray-400 mb-6">
+        Rendered in your browser as SVG, for private repositories or when GitHub's image is unavailable.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Title</label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Optional"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Theme</label>
+          <div className="flex gap-2">
+            {CARD_THEMES.map(option => (
+              <button
+                key={option}
+                onClick={() => setTheme(option)}
+                className={`flex-1 px-4 py-2 rounded-xl border-2 text-sm capitalize transition-all duration-200 ${
+                  theme === option
+                    ? 'border-lime-400 bg-lime-400/10 text-lime-400'
+                    : 'border-gray-600 bg-gray-700 text-gray-300 hover:border-gray-500'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-300 mb-2">Description</label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            placeholder="Optional"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="text-center mb-6">
+        <img src={dataUri} alt={formatAlt(DEFAULT_ALT, card.data)} className="inline-block rounded-xl shadow-lg max-w-full h-auto" />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value)}
+          className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white focus:outline-none focus:border-lime-400"
+        >
+          {getFormats().map(entry => (
+            <option key={entry.id} value={entry.id}>{entry.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleDownload}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-lime-400/10 hover:bg-lime-400/20 text-lime-400 text-sm transition-colors duration-200"
+        >
+          <Download className="w-4 h-4" />
+          Download SVG
+        </button>
+      </div>
+
+      <div className="space-y-6">
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <label className="text-sm font-medium text-gray-300">Embedded</label>
+            <CopyButton text={embedded} />
+          </div>
+          <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 max-h-40 overflow-auto">
+            <pre className="text-sm text-gray-300 whitespace-pre-wrap break-all"><code>{embedded}</code></pre>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <label className="text-sm font-medium text-gray-300">Linked to the downloaded file</label>
+            <CopyButton text={linked} />
+          </div>
+          <input
+            type="text"
+            value={filePath}
+            onChange={(e) => setFilePath(e.target.value)}
+            aria-label="SVG file path or URL"
+            className={`${inputClass} mb-3 font-mono text-sm`}
+          />
+          <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
+            <pre className="text-sm text-gray-300 whitespace-pre-wrap break-all"><code>{linked}</code></pre>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default FallbackCard;
@@ -0,0 +1,176 @@
+import { useRef, useState } from 'react';
+import { AlertCircle, Download, RotateCcw, Search, Star, Trash2, Upload } from 'lucide-react';
+import {
+  exportHistory,
+  filterHistory,
+  historyOwners,
+  parseHistory,
+  type HistoryEntry,
+} from '../lib';
+import { downloadBlob } from '../lib/download';
+import type { CardType } from '../types';
+import { smallInputClass } from './styles';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  cardTypes: { id: string; label: string; icon: string }[];
+  onRestore: (entry: HistoryEntry) => void;
+  onTogglePin: (id: string) => void;
+  onRemove: (id: string) => void;
+  onImport: (entries: HistoryEntry[]) => void;
+  onClear: () => void;
+}
+
+const buttonClass =
+  'flex items-center gap-2 px-3 py-2 rounded-lg bg-lime-400/10 hover:bg-lime-400/20 text-lime-400 text-sm transition-colors duration-200';
+
+function HistoryPanel({ entries, cardTypes, onRestore, onTogglePin, onRemove, onImport, onClear }: HistoryPanelProps) {
+  const [query, setQuery] = useState<string>('');
+  const [type, setType] = useState<CardType | ''>('');
+  const [owner, setOwner] = useState<string>('');
+  const [pinnedOnly, setPinnedOnly] = useState<boolean>(false);
+  const [importError, setImportError] = useState<string>('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const visible = filterHistory(entries, { query, type: type || undefined, owner, pinnedOnly });
+  const typeInfo = (id: CardType) => cardTypes.find(cardType => cardType.id === id);
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportHistory(entries)], { type: 'application/json' }), 'github-cards.json');
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    const result = parseHistory(await file.text());
+    if (!result.ok) {
+      setImportError(result.error);
+      return;
+    }
+    setImportError('');
+    onImport(result.entries);
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-2xl p-8 shadow-xl">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <h2 className="text-2xl font-semibold text-lime-400">History</h2>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={handleExport} disabled={entries.length === 0} className={`${buttonClass} disabled:opacity-50`}>
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+          <button onClick={() => fileInput.current?.click()} className={buttonClass}>
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
+          <button
+            onClick={onClear}
+            disabled={entries.every(entry => entry.pinned)}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-gray-300 hover:text-red-400 transition-colors duration-200 disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            Clear unpinned
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {importError && (
+        <div className="mb-4 flex items-center gap-2 text-sm text-red-400">
+          <AlertCircle className="w-4 h-4" />
+          <span>{importError}</span>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <div className="relative flex-1 min-w-48">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search cards"
+            className={`${smallInputClass} w-full pl-9`}
+          />
+        </div>
+        <select value={type} onChange={(e) => setType(e.target.value as CardType | '')} className={smallInputClass}>
+          <option value="">All types</option>
+          {cardTypes.map(cardType => (
+            <option key={cardType.id} value={cardType.id}>{cardType.label}</option>
+          ))}
+        </select>
+        <select value={owner} onChange={(e) => setOwner(e.target.value)} className={smallInputClass}>
+          <option value="">All owners</option>
+          {historyOwners(entries).map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={pinnedOnly}
+            onChange={(e) => setPinnedOnly(e.target.checked)}
+            className="accent-lime-400"
+          />
+          Pinned only
+        </label>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">
+          {entries.length === 0 ? 'Cards you generate will show up here.' : 'No cards match these filters.'}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {visible.map(entry => (
+            <li key={entry.id} className="flex items-center gap-4 bg-gray-900 rounded-xl p-3 border border-gray-700">
+              <img src={entry.imageUrl} alt="" loading="lazy" className="w-32 rounded-md shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-400">
+                  {typeInfo(entry.data.type)?.icon} {typeInfo(entry.data.type)?.label}
+                </div>
+                <div className="text-white truncate" title={entry.id}>{entry.id}</div>
+                <div className="text-xs text-gray-500">{new Date(entry.createdAt).toLocaleString()}</div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <button
+                  onClick={() => onTogglePin(entry.id)}
+                  aria-label={entry.pinned ? 'Unpin' : 'Pin'}
+                  aria-pressed={entry.pinned}
+                  className={`p-2 rounded ${entry.pinned ? 'text-lime-400' : 'text-gray-400 hover:text-lime-400'}`}
+                >
+                  <Star className="w-4 h-4" fill={entry.pinned ? 'currentColor' : 'none'} />
+                </button>
+                <button
+                  onClick={() => onRestore(entry)}
+                  aria-label="Restore"
+                  className="p-2 rounded text-gray-400 hover:text-lime-400"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onRemove(entry.id)}
+                  aria-label="Remove"
+                  className="p-2 rounded text-gray-400 hover:text-red-400"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default HistoryPanel;
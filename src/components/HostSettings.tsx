@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import {
+  CARD_THEMES,
+  GITHUB_HOST,
+  OPENGRAPH_ENDPOINT,
+  hostName,
+  validateHostProfile,
+  type CardTheme,
+  type HostProfile,
+} from '../lib';
+import { inputClass } from './styles';
+
+interface HostSettingsProps {
+  host: HostProfile;
+  onChange: (host: HostProfile) => void;
+}
+
+const endpointOf = (host: HostProfile) => (host.image.kind === 'opengraph' ? host.image.endpoint : OPENGRAPH_ENDPOINT);
+const themeOf = (host: HostProfile): CardTheme => (host.image.kind === 'svg' ? host.image.theme : 'dark');
+
+function HostSettings({ host, onChange }: HostSettingsProps) {
+  const [draft, setDraft] = useState<HostProfile>(host);
+  const [endpoint, setEndpoint] = useState<string>(() => endpointOf(host));
+  const [theme, setTheme] = useState<CardTheme>(() => themeOf(host));
+  const error = validateHostProfile(draft);
+
+  // A host from elsewhere, e.g. Back or a deep link, replaces the draft; the form's own changes already match it.
+  const [shownHost, setShownHost] = useState<HostProfile>(host);
+  if (host !== shownHost) {
+    setShownHost(host);
+    if (host !== draft) {
+      setDraft(host);
+      setEndpoint(endpointOf(host));
+      setTheme(themeOf(host));
+    }
+  }
+
+  // Only valid profiles reach the rest of the app; the form keeps the draft until then.
+  const update = (next: HostProfile) => {
+    setDraft(next);
+    if (!validateHostProfile(next)) onChange(next);
+  };
+
+  const reset = () => {
+    setEndpoint(OPENGRAPH_ENDPOINT);
+    setTheme('dark');
+    update(GITHUB_HOST);
+  };
+
+  return (
+    <details className="bg-gray-800 rounded-2xl p-8 mb-8 shadow-xl">
+      <summary className="text-2xl font-semibold text-lime-400 cursor-pointer select-none">
+        Host <span className="text-base font-normal text-gray-400">({hostName(host)})</span>
+      </summary>
+
+      <div className="mt-6 space-y-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Web URL</label>
+          <input
+            type="url"
+            value={draft.baseUrl}
+            onChange={(e) => update({ ...draft, baseUrl: e.target.value.trim() })}
+            placeholder="https://github.example.com"
+            className={inputClass}
+          />
+          <p className="mt-2 text-xs text-gray-500">
+            For GitHub Enterprise Server, use your instance's address. Links and pasted URLs use this host.
+          </p>
+        </div>
+
+        <div>
+          <span className="block text-sm font-medium text-gray-300 mb-2">Card Images</span>
+          <div className="space-y-3">
+            <label className="flex items-start gap-3 text-sm text-gray-300">
+              <input
+                type="radio"
+                name="image-source"
+                checked={draft.image.kind === 'opengraph'}
+                onChange={() => update({ ...draft, image: { kind: 'opengraph', endpoint } })}
+                className="mt-3 accent-lime-400"
+              />
+              <div className="flex-1">
+                <div className="mb-2 mt-2">OpenGraph endpoint</div>
+                <input
+                  type="text"
+                  value={endpoint}
+                  onChange={(e) => {
+                    setEndpoint(e.target.value);
+                    update({ ...draft, image: { kind: 'opengraph', endpoint: e.target.value.trim() } });
+                  }}
+                  className={`${inputClass} font-mono text-sm`}
+                />
+                <p className="mt-2 text-xs text-gray-500">
+                  {'{path}'}, {'{owner}'}, {'{repo}'}, {'{type}'} and {'{hash}'} are filled in; without them the card path is appended.
+                </p>
+              </div>
+            </label>
+            <label className="flex items-center gap-3 text-sm text-gray-300">
+              <input
+                type="radio"
+                name="image-source"
+                checked={draft.image.kind === 'svg'}
+                onChange={() => update({ ...draft, image: { kind: 'svg', theme } })}
+                className="accent-lime-400"
+              />
+              <span>Local SVG card</span>
+              <select
+                value={theme}
+                onChange={(e) => {
+                  const next = e.target.value as CardTheme;
+                  setTheme(next);
+                  update({ ...draft, image: { kind: 'svg', theme: next } });
+                }}
+                className="px-3 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white capitalize focus:outline-none focus:border-lime-400"
+              >
+                {CARD_THEMES.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-400">
+            <AlertCircle className="w-4 h-4" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <button onClick={reset} className="text-sm text-gray-400 hover:text-lime-400 underline underline-offset-4">
+          Reset to github.com
+        </button>
+      </div>
+    </details>
+  );
+}
+
+export default HostSettings;
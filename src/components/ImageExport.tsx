@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { AlertCircle, Download, FileCode, Loader2 } from 'lucide-react';
+import {
+  IMAGE_FORMATS,
+  blobToDataUri,
+  exportCardImage,
+  imageFileName,
+  renderDataUriSnippets,
+  type ImageFetcher,
+  type ImageFormat,
+  type SnippetCard,
+  type SnippetOptions,
+} from '../lib';
+import { canvasEncoder } from '../lib/canvasEncoder';
+import { downloadBlob } from '../lib/download';
+import CopyButton from './CopyButton';
+import { smallInputClass } from './styles';
+
+interface ImageExportProps {
+  card: SnippetCard;
+  options: SnippetOptions;
+  fetcher?: ImageFetcher;
+}
+
+function ImageExport({ card, options, fetcher }: ImageExportProps) {
+  const [format, setFormat] = useState<ImageFormat>('png');
+  const [width, setWidth] = useState<string>('');
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const [dataUri, setDataUri] = useState<string>('');
+
+  const exportImage = async () => {
+    setBusy(true);
+    setError('');
+    const result = await exportCardImage(card.imageUrl, {
+      format,
+      width: Number(width) > 0 ? Number(width) : undefined,
+      quality: 0.92,
+      fetcher,
+      encoder: canvasEncoder,
+    });
+    setBusy(false);
+
+    if (!result.ok) {
+      setError(result.error);
+      return null;
+    }
+    return result.blob;
+  };
+
+  const handleDownload = async () => {
+    const blob = await exportImage();
+    if (!blob) return;
+
+    downloadBlob(blob, imageFileName(card.data, format));
+  };
+
+  const handleDataUri = async () => {
+    const blob = await exportImage();
+    if (blob) setDataUri(await blobToDataUri(blob));
+  };
+
+  const snippets = dataUri ? renderDataUriSnippets(card, dataUri, options) : null;
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-700 text-left">
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-sm text-gray-300">
+          Format
+          <select value={format} onChange={(e) => setFormat(e.target.value as ImageFormat)} className={smallInputClass}>
+            {IMAGE_FORMATS.map((option) => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-300">
+          Width (px)
+          <input
+            type="number"
+            min={1}
+            value={width}
+            onChange={(e) => setWidth(e.target.value)}
+            placeholder="original"
+            className={`${smallInputClass} w-28`}
+          />
+        </label>
+        <button
+          onClick={handleDownload}
+          disabled={busy}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-lime-400/10 hover:bg-lime-400/20 text-lime-400 transition-colors duration-200 disabled:opacity-50"
+        >
+          {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          <span className="text-sm">Download</span>
+        </button>
+        <button
+          onClick={handleDataUri}
+          disabled={busy}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-lime-400/10 hover:bg-lime-400/20 text-lime-400 transition-colors duration-200 disabled:opacity-50"
+        >
+          <FileCode className="w-4 h-4" />
+          <span className="text-sm">Data URI</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-4 flex items-center gap-2 text-sm text-red-400">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {snippets && (
+        <div className="mt-6 space-y-4">
+          {(
+            [
+              ['Data URI', dataUri],
+              ['Markdown (embedded)', snippets.markdown],
+              ['HTML (embedded)', snippets.html],
+            ] as const
+          ).map(([label, text]) => (
+            <div key={label}>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-medium text-gray-300">{label}</label>
+                <CopyButton text={text} />
+              </div>
+              <div className="bg-gray-900 rounded-lg p-3 border border-gray-700 max-h-32 overflow-auto">
+                <code className="text-xs text-gray-400 break-all">{text}</code>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ImageExport;
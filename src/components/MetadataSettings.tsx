@@ -0,0 +1,49 @@
+import type { MetadataSettings as Settings } from '../hooks/useMetadataSettings';
+import { inputClass } from './styles';
+
+interface MetadataSettingsProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+function MetadataSettings({ settings, onChange }: MetadataSettingsProps) {
+  return (
+    <details className="bg-gray-800 rounded-2xl p-8 mb-8 shadow-xl">
+      <summary className="text-2xl font-semibold text-lime-400 cursor-pointer select-none">
+        Metadata <span className="text-base font-normal text-gray-400">({settings.enabled ? 'on' : 'off'})</span>
+      </summary>
+
+      <div className="mt-6 space-y-6">
+        <label className="flex items-center gap-3 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+            className="accent-lime-400"
+          />
+          Fetch titles, state, labels and stats from the GitHub API
+        </label>
+        <p className="text-xs text-gray-500">
+          Used by the Markdown Card and HTML Card formats and the {'{title}'} alt text, for repositories, issues, pull requests and releases.
+        </p>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Access Token</label>
+          <input
+            type="password"
+            value={settings.token}
+            onChange={(e) => onChange({ ...settings, token: e.target.value.trim() })}
+            placeholder="Optional, e.g. github_pat_..."
+            autoComplete="off"
+            className={`${inputClass} font-mono text-sm`}
+          />
+          <p className="mt-2 text-xs text-gray-500">
+            Anonymous requests are limited to 60 an hour. A read-only token raises the limit and reaches private repositories; it's kept in this browser only.
+          </p>
+        </div>
+      </div>
+    </details>
+  );
+}
+
+export default MetadataSettings;
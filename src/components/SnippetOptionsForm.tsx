@@ -0,0 +1,116 @@
+import { ALIGNMENTS, DEFAULT_ALT, type Alignment, type SnippetOptions } from '../lib';
+import { inputClass } from './styles';
+
+interface SnippetOptionsFormProps {
+  options: SnippetOptions;
+  onChange: (options: SnippetOptions) => void;
+}
+
+const toNumber = (value: string) => {
+  const num = Number(value);
+  return value === '' || !Number.isFinite(num) || num <= 0 ? undefined : num;
+};
+
+function SnippetOptionsForm({ options, onChange }: SnippetOptionsFormProps) {
+  const update = (changes: Partial<SnippetOptions>) => onChange({ ...options, ...changes });
+
+  return (
+    <details className="bg-gray-800 rounded-2xl p-8 mb-8 shadow-xl group">
+      <summary className="text-2xl font-semibold text-lime-400 cursor-pointer select-none">
+        Snippet Options
+      </summary>
+
+      <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-300 mb-2">Alt Text</label>
+          <input
+            type="text"
+            value={options.alt ?? ''}
+            onChange={(e) => update({ alt: e.target.value })}
+            placeholder={DEFAULT_ALT}
+            className={inputClass}
+          />
+          <p className="mt-2 text-xs text-gray-500">
+            Use {'{owner}'}, {'{repo}'}, {'{type}'}, {'{num}'}, {'{tag}'}, {'{ref}'} (#123 or @v1.0.0) or {'{title}'} ({'{owner}/{repo}{ref}'}).
+          </p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 md:col-span-2">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Width (px)</label>
+            <input
+              type="number"
+              min={1}
+              value={options.width ?? ''}
+              onChange={(e) => update({ width: toNumber(e.target.value) })}
+              placeholder="auto"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Height (px)</label>
+            <input
+              type="number"
+              min={1}
+              value={options.height ?? ''}
+              onChange={(e) => update({ height: toNumber(e.target.value) })}
+              placeholder="auto"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Scale (%)</label>
+            <input
+              type="number"
+              min={1}
+              value={options.scale ?? ''}
+              onChange={(e) => update({ scale: toNumber(e.target.value) })}
+              disabled={Boolean(options.width || options.height)}
+              placeholder="100"
+              className={`${inputClass} disabled:opacity-50`}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Alignment</label>
+          <select
+            value={options.align ?? ''}
+            onChange={(e) => update({ align: (e.target.value || undefined) as Alignment | undefined })}
+            className={inputClass}
+          >
+            <option value="">None</option>
+            {ALIGNMENTS.map((align) => (
+              <option key={align} value={align}>
+                {align[0].toUpperCase() + align.slice(1)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-col justify-end gap-2">
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={options.newTab ?? true}
+              onChange={(e) => update({ newTab: e.target.checked })}
+              className="accent-lime-400"
+            />
+            Open link in a new tab
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={options.noopener ?? false}
+              onChange={(e) => update({ noopener: e.target.checked })}
+              className="accent-lime-400"
+            />
+            Add rel="noopener"
+          </label>
+        </div>
+      </div>
+    </details>
+  );
+}
+
+export default SnippetOptionsForm;
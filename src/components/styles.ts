@@ -0,0 +1,10 @@
+const FIELD = 'bg-gray-700 border border-gray-600 text-white placeholder-gray-400 focus:outline-none focus:border-lime-400';
+
+/** Full-width text inputs and selects, without padding. */
+export const inputBaseClass = `w-full ${FIELD} rounded-xl focus:ring-2 focus:ring-lime-400/20 transition-all duration-200`;
+
+/** The settings panels' inputs. */
+export const inputClass = `${inputBaseClass} px-4 py-2`;
+
+/** Inline toolbar inputs, such as the history search. */
+export const smallInputClass = `px-3 py-2 ${FIELD} rounded-lg text-sm`;
@@ -0,0 +1,11 @@
+/**
+ * Writes a setting to localStorage. Storage can be unavailable, e.g. in
+ * private windows or sandboxed frames; the value then lasts for this visit.
+ */
+export function saveToStorage(key: string, value: string): void {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    // Nothing to do: the state itself is still in memory.
+  }
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { parseGitHubUrl, type FormData, type HostProfile, type ValidationError } from '../lib';
+
+export const EMPTY_FORM: FormData = {
+  type: 'repository',
+  user: '',
+  repo: '',
+  num: undefined,
+  tag: '',
+  ref: '',
+  path: ''
+};
+
+const fromUrl = (value: string, host: HostProfile) => {
+  if (!value.trim()) return { data: undefined, error: '' };
+  const result = parseGitHubUrl(value, host);
+  return result.ok ? { data: { ...EMPTY_FORM, ...result.data }, error: '' } : { data: undefined, error: result.error };
+};
+
+type Touched = Partial<Record<keyof FormData, boolean>>;
+
+/**
+ * The card fields plus the "GitHub URL" box that fills them in. A pasted URL
+ * that doesn't parse leaves the fields alone and reports why. Fields count as
+ * touched once edited or left, so an empty form doesn't open with errors.
+ */
+export function useCardForm(host: HostProfile, initial: { data?: FormData; url?: string } = {}) {
+  const [formData, setFormData] = useState<FormData>(
+    () => fromUrl(initial.url ?? '', host).data ?? initial.data ?? EMPTY_FORM
+  );
+  const [url, setUrl] = useState<string>(initial.url ?? '');
+  const [urlError, setUrlError] = useState<string>(() => fromUrl(initial.url ?? '', host).error);
+  const [touched, setTouched] = useState<Touched>({});
+
+  const touch = (field: keyof FormData) => setTouched(prev => (prev[field] ? prev : { ...prev, [field]: true }));
+
+  const setField = (field: keyof FormData, value: string) => {
+    touch(field);
+    if (field === 'num') {
+      // Number inputs accept `e`, `.` and `-`; an issue number never has them.
+      if (!/^\d*$/.test(value)) return;
+      setFormData(prev => ({ ...prev, num: value === '' ? undefined : Number(value) }));
+      return;
+    }
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  /** The errors worth showing: those on fields that were touched or already hold a value. */
+  const visibleErrors = (errors: ValidationError[], data: FormData = formData) =>
+    errors.filter(({ field }) => touched[field] || (data[field] ?? '') !== '');
+
+  const changeUrl = (value: string) => {
+    setUrl(value);
+    const parsed = fromUrl(value, host);
+    setUrlError(parsed.error);
+    if (parsed.data) {
+      setFormData(parsed.data);
+      setTouched({});
+    }
+  };
+
+  /** Replaces the fields, e.g. from a deep link or history entry, and clears the URL box. */
+  const restore = (data: FormData | undefined) => {
+    setFormData({ ...EMPTY_FORM, ...data });
+    setUrl('');
+    setUrlError('');
+    setTouched({});
+  };
+
+  return { formData, url, urlError, setField, touch, visibleErrors, changeUrl, restore };
+}
@@ -0,0 +1,54 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  METADATA_TYPES,
+  cardPath,
+  createGitHubApiProvider,
+  hostBaseUrl,
+  validateCard,
+  type CardMetadata,
+  type FormData,
+  type HostProfile,
+  type MetadataResult,
+} from '../lib';
+import type { MetadataSettings } from './useMetadataSettings';
+
+// Typing a name shouldn't spend the rate limit on every keystroke.
+const DEBOUNCE_MS = 500;
+
+export interface CardMetadataState {
+  metadata?: CardMetadata;
+  error: string;
+  loading: boolean;
+}
+
+/** Fetches metadata for the card once its fields settle, when turned on in `settings`. */
+export function useCardMetadata(data: FormData, host: HostProfile, { enabled, token }: MetadataSettings): CardMetadataState {
+  const provider = useMemo(() => createGitHubApiProvider({ host, token: token || undefined }), [host, token]);
+  const [loaded, setLoaded] = useState<{ key: string; result: MetadataResult } | null>(null);
+  const latest = useRef(data);
+  latest.current = data;
+
+  const wanted = enabled && METADATA_TYPES.includes(data.type) && validateCard(data).length === 0;
+  const key = wanted ? `${hostBaseUrl(host)}/${cardPath(data)}` : '';
+
+  useEffect(() => {
+    if (!key) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const result = await provider.getMetadata(latest.current);
+      if (!cancelled) setLoaded({ key, result });
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [key, provider]);
+
+  if (!key) return { error: '', loading: false };
+  if (loaded?.key !== key) return { error: '', loading: true };
+  return loaded.result.ok
+    ? { metadata: loaded.result.metadata, error: '', loading: false }
+    : { error: loaded.result.error, loading: false };
+}
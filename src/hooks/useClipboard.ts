@@ -0,0 +1,45 @@
+import { useEffect, useRef, useState } from 'react';
+import { writeClipboard, type ClipboardContent } from '../lib/clipboard';
+
+export interface ClipboardFallback extends ClipboardContent {
+  error: string;
+}
+
+const TOAST_MS = 2000;
+
+/**
+ * Copies to the clipboard, with a toast to confirm it and, when the browser
+ * refuses, the content to select and copy by hand. Render the state with
+ * `ClipboardStatus`.
+ */
+export function useClipboard() {
+  const [toast, setToast] = useState<string>('');
+  const [fallback, setFallback] = useState<ClipboardFallback | null>(null);
+  const timer = useRef<number>();
+
+  useEffect(() => () => window.clearTimeout(timer.current), []);
+
+  const showToast = (message: string) => {
+    setToast(message);
+    window.clearTimeout(timer.current);
+    timer.current = window.setTimeout(() => setToast(''), TOAST_MS);
+  };
+
+  /** Resolves to whether the content reached the clipboard; `message` is shown as a toast when it did. */
+  const copy = async (content: ClipboardContent, message?: string): Promise<boolean> => {
+    const result = await writeClipboard(content);
+    if (!result.ok) {
+      setFallback({ ...content, error: result.error });
+      return false;
+    }
+    if (message) showToast(message);
+    return true;
+  };
+
+  const closeFallback = (copied: boolean) => {
+    setFallback(null);
+    if (copied) showToast('Copied to clipboard');
+  };
+
+  return { copy, toast, fallback, closeFallback };
+}
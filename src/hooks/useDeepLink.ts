@@ -0,0 +1,59 @@
+import { useEffect, useRef } from 'react';
+import { hasField, parseCardState, serializeCardState, type CardState } from '../lib';
+
+const normalizeSearch = (search: string) => {
+  const state = parseCardState(search);
+  return state ? `?${serializeCardState(state)}` : search;
+};
+
+/** Reads the card described by the page's query string, if any. */
+export function readDeepLink(): CardState | null {
+  return parseCardState(window.location.search);
+}
+
+/**
+ * Mirrors the card into the query string. Edits replace the current history
+ * entry until the card has loaded, so Back and Forward step between finished
+ * cards rather than every keystroke.
+ */
+export function useDeepLink(state: CardState, onRestore: (state: CardState | null) => void) {
+  const { data } = state;
+  const hasCard = Boolean(data.user && (data.repo || !hasField(data.type, 'repo')));
+  const search = hasCard ? `?${serializeCardState(state)}` : '';
+  const committed = useRef<string>(normalizeSearch(window.location.search));
+  const restore = useRef(onRestore);
+  restore.current = onRestore;
+
+  useEffect(() => {
+    if (search === window.location.search) return;
+
+    // Clearing the form drops the old card from the address too, so a reload doesn't bring it back.
+    if (!hasCard) {
+      if (readDeepLink()) window.history.replaceState(null, '', `${window.location.pathname}${window.location.hash}`);
+      return;
+    }
+
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (window.location.search === committed.current) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }, [hasCard, search]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      committed.current = normalizeSearch(window.location.search);
+      restore.current(readDeepLink());
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Called once the card has loaded; the next edit starts a new history entry.
+  const commit = () => {
+    committed.current = window.location.search;
+  };
+
+  return { link: `${window.location.origin}${window.location.pathname}${search}`, commit };
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import {
+  addHistoryEntry,
+  exportHistory,
+  mergeHistory,
+  parseHistory,
+  removeHistoryEntry,
+  togglePinned,
+  type HistoryEntry,
+  type HostProfile,
+  type SnippetCard,
+} from '../lib';
+import { saveToStorage } from './storage';
+
+const STORAGE_KEY = 'github-card-creator:history';
+
+const loadHistory = (): HistoryEntry[] => {
+  try {
+    const result = parseHistory(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return result.ok ? result.entries : [];
+  } catch {
+    return [];
+  }
+};
+
+/** Generated cards, persisted to localStorage. */
+export function useHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>(loadHistory);
+
+  useEffect(() => {
+    saveToStorage(STORAGE_KEY, exportHistory(entries));
+  }, [entries]);
+
+  return {
+    entries,
+    add: (card: SnippetCard, host: HostProfile) => setEntries(prev => addHistoryEntry(prev, card, host)),
+    togglePin: (id: string) => setEntries(prev => togglePinned(prev, id)),
+    remove: (id: string) => setEntries(prev => removeHistoryEntry(prev, id)),
+    merge: (imported: HistoryEntry[]) => setEntries(prev => mergeHistory(prev, imported)),
+    clearUnpinned: () => setEntries(prev => prev.filter(entry => entry.pinned)),
+  };
+}
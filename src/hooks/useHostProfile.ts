@@ -0,0 +1,29 @@
+import { useState } from 'react';
+import { GITHUB_HOST, validateHostProfile, type HostProfile } from '../lib';
+import { saveToStorage } from './storage';
+
+const STORAGE_KEY = 'github-card-creator:host';
+
+const loadHostProfile = (): HostProfile => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as HostProfile | null;
+    return stored && !validateHostProfile(stored) ? stored : GITHUB_HOST;
+  } catch {
+    return GITHUB_HOST;
+  }
+};
+
+/**
+ * The host cards are generated for. `chooseHost` remembers it across visits;
+ * `initial`, e.g. from a deep link, and `showHost` only apply to this page.
+ */
+export function useHostProfile(initial?: HostProfile) {
+  const [host, setHost] = useState<HostProfile>(() => initial ?? loadHostProfile());
+
+  const chooseHost = (next: HostProfile) => {
+    setHost(next);
+    saveToStorage(STORAGE_KEY, JSON.stringify(next));
+  };
+
+  return [host, chooseHost, setHost] as const;
+}
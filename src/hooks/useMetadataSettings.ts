@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { saveToStorage } from './storage';
+
+const STORAGE_KEY = 'github-card-creator:metadata';
+
+export interface MetadataSettings {
+  enabled: boolean;
+  /** Personal access token for the GitHub API; empty for anonymous requests. */
+  token: string;
+}
+
+const DEFAULT_SETTINGS: MetadataSettings = { enabled: false, token: '' };
+
+const loadSettings = (): MetadataSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<MetadataSettings> | null;
+    return {
+      enabled: stored?.enabled === true,
+      token: typeof stored?.token === 'string' ? stored.token : '',
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+/** Whether to fetch card metadata from the GitHub API, and with which token, remembered across visits. */
+export function useMetadataSettings() {
+  const [settings, setSettings] = useState<MetadataSettings>(loadSettings);
+
+  useEffect(() => {
+    saveToStorage(STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  return [settings, setSettings] as const;
+}
@@ -0,0 +1,29 @@
+import { useState } from 'react';
+import { getFormat, type OutputFormat } from '../lib';
+import { saveToStorage } from './storage';
+
+const STORAGE_KEY = 'github-card-creator:format';
+
+const loadFormat = (): OutputFormat => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored && getFormat(stored) ? stored : 'markdown';
+  } catch {
+    return 'markdown';
+  }
+};
+
+/**
+ * The format copied with one click. `chooseFormat` remembers it across visits;
+ * `initial`, e.g. from a deep link, and `showFormat` only apply to this page.
+ */
+export function usePreferredFormat(initial?: OutputFormat) {
+  const [format, setFormat] = useState<OutputFormat>(() => initial ?? loadFormat());
+
+  const chooseFormat = (next: OutputFormat) => {
+    setFormat(next);
+    saveToStorage(STORAGE_KEY, next);
+  };
+
+  return [format, chooseFormat, setFormat] as const;
+}
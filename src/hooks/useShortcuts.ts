@@ -0,0 +1,37 @@
+import { useEffect, useRef } from 'react';
+
+export const isMac = /Mac|iPhone|iPad/.test(navigator.userAgent);
+
+/** How an Alt shortcut reads on this platform, e.g. `Alt+C`, `⌥C` or, with Shift, `Alt+Shift+A` and `⌥⇧A`. */
+export const altShortcut = (key: string, shift = false) =>
+  isMac ? `⌥${shift ? '⇧' : ''}${key}` : `Alt+${shift ? 'Shift+' : ''}${key}`;
+
+// Alt combinations type characters in these on some layouts, so they keep their keys.
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Runs `handlers[code]` when Alt and that key are pressed, e.g. `KeyC`, and
+ * `handlers['Shift+' + code]` when Shift is held too. Matching on `code` keeps
+ * shortcuts working on macOS, where Option changes the character typed.
+ */
+export function useShortcuts(handlers: Record<string, () => void>, enabled = true) {
+  const latest = useRef(handlers);
+  latest.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!event.altKey || event.ctrlKey || event.metaKey || isEditable(event.target)) return;
+      const handler = latest.current[event.shiftKey ? `Shift+${event.code}` : event.code];
+      if (!handler) return;
+      event.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
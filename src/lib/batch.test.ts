@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { renderBatch, resolveTarget, splitTargets, type BatchFormat } from './batch';
+import type { SnippetCard } from './snippets';
+
+const resolved = (target: string): SnippetCard => {
+  const result = resolveTarget(target);
+  if (!result.ok) throw new Error(result.error);
+  return result;
+};
+
+const CARDS = ['octocat/Hello-World', 'octocat/Hello-World#1', 'octocat/Hello-World@v1.0.0'].map(resolved);
+const [REPO, ISSUE, RELEASE] = CARDS;
+
+const markdown = (card: SnippetCard, alt: string) => `[![${alt}](${card.imageUrl})](${card.githubUrl})`;
+const html = (card: SnippetCard, alt: string) =>
+  `<a href="${card.githubUrl}" target="_blank"><img src="${card.imageUrl}" alt="${alt}" /></a>`;
+
+describe('splitTargets', () => {
+  it('skips blank lines and comments', () => {
+    expect(splitTargets('octocat/Hello-World\r\n\n  # later\n  octocat/Hello-World#1  \n#octocat/Spoon-Knife\n')).toEqual([
+      'octocat/Hello-World',
+      'octocat/Hello-World#1',
+    ]);
+    expect(splitTargets(' \n# only comments')).toEqual([]);
+  });
+});
+
+describe('resolveTarget', () => {
+  it('resolves URLs and short forms like a single card', () => {
+    expect(resolveTarget('https://github.com/octocat/Hello-World/pull/2')).toMatchObject({
+      ok: true,
+      githubUrl: 'https://github.com/octocat/Hello-World/pull/2',
+      data: { type: 'pull-request', num: 2 },
+    });
+  });
+
+  it('explains targets that fail parsing or validation', () => {
+    expect(resolveTarget('https://gitlab.com/octocat/Hello-World')).toMatchObject({
+      ok: false,
+      error: expect.stringMatching(/^Only github.com URLs are supported/),
+    });
+    expect(resolveTarget('octocat/Hello-World#0')).toEqual({ ok: false, error: 'Issue number must be a positive integer' });
+  });
+});
+
+describe('renderBatch', () => {
+  it('renders nothing without cards', () => {
+    expect(renderBatch([], 'html')).toBe('');
+  });
+
+  it('lists every card in the chosen format', () => {
+    expect(renderBatch(CARDS, 'url')).toBe(CARDS.map((card) => card.imageUrl).join('\n'));
+    expect(renderBatch([REPO, ISSUE], 'markdown')).toBe(
+      `${markdown(REPO, 'octocat/Hello-World')}\n${markdown(ISSUE, 'octocat/Hello-World#1')}`,
+    );
+    expect(renderBatch([REPO], 'rst')).toBe(
+      `- .. image:: ${REPO.imageUrl}\n     :alt: octocat/Hello-World\n     :target: ${REPO.githubUrl}`,
+    );
+    expect(renderBatch([REPO], 'html')).toBe(`<div>\n  ${html(REPO, 'octocat/Hello-World')}\n</div>`);
+  });
+
+  it('pads the last Markdown table row to the column count', () => {
+    expect(renderBatch(CARDS, 'markdown-table')).toBe(
+      [
+        '|  |  |',
+        '| --- | --- |',
+        `| ${markdown(REPO, 'octocat/Hello-World')} | ${markdown(ISSUE, 'octocat/Hello-World#1')} |`,
+        `| ${markdown(RELEASE, 'octocat/Hello-World@v1.0.0')} |  |`,
+      ].join('\n'),
+    );
+    expect(renderBatch([REPO], 'markdown-table', {}, 0).split('\n').slice(0, 2)).toEqual(['|  |', '| --- |']);
+  });
+
+  it.each<[BatchFormat, (text: string) => void]>([
+    ['url', (text) => expect(text).not.toContain('center')],
+    ['markdown', (text) => expect(text).toMatch(/^<p align="center">\n {2}<a /)],
+    ['markdown-table', (text) => expect(text).not.toContain('center')],
+    ['rst', (text) => expect(text.match(/:align: center/g)).toHaveLength(2)],
+    // Aligned AsciiDoc images are block macros, which need a blank line between them.
+    ['asciidoc', (text) => expect(text.split('\n\n').map((block) => block.slice(0, 7))).toEqual(['image::', 'image::'])],
+    ['html', (text) => expect(text).toMatch(/^<div align="center">\n {2}<a [^\n]*>\n {2}<a [^\n]*>\n<\/div>$/)],
+  ])('handles alignment in %s', (format, check) => {
+    check(renderBatch([REPO, ISSUE], format, { align: 'center' }));
+  });
+
+  it('applies the other options to each card', () => {
+    const text = renderBatch([REPO, ISSUE], 'html', { width: 400, newTab: false });
+    expect(text.match(/width="400"/g)).toHaveLength(2);
+    expect(text).not.toContain('target="_blank"');
+  });
+});
@@ -0,0 +1,100 @@
+import { generateCard, type CardUrls } from './cards';
+import { GITHUB_HOST, type HostProfile } from './hosts';
+import { parseGitHubUrl } from './parseGitHubUrl';
+import {
+  renderAsciidoc,
+  renderHtml,
+  renderMarkdown,
+  renderRst,
+  type ImageSize,
+  type SnippetCard,
+  type SnippetOptions,
+} from './snippets';
+import type { CodeData, FormData } from '../types';
+
+export type TargetResult =
+  | ({ ok: true; data: FormData; code: CodeData; imageSize: ImageSize } & CardUrls)
+  | { ok: false; error: string };
+
+export type BatchFormat = 'url' | 'markdown' | 'markdown-table' | 'rst' | 'asciidoc' | 'html';
+
+export const BATCH_FORMATS: { id: BatchFormat; label: string }[] = [
+  { id: 'markdown', label: 'Markdown gallery' },
+  { id: 'markdown-table', label: 'Markdown table' },
+  { id: 'rst', label: 'rSt list' },
+  { id: 'asciidoc', label: 'AsciiDoc' },
+  { id: 'html', label: 'HTML' },
+  { id: 'url', label: 'URLs' },
+];
+
+/** Parses a URL or short form and validates it the same way a single card is. */
+export function resolveTarget(
+  target: string,
+  options: SnippetOptions = {},
+  host: HostProfile = GITHUB_HOST,
+): TargetResult {
+  const parsed = parseGitHubUrl(target, host);
+  if (!parsed.ok) return parsed;
+
+  const result = generateCard(parsed.data, options, host);
+  if (!result.ok) return { ok: false, error: result.errors.map((e) => e.message).join(', ') };
+
+  return result;
+}
+
+/** Splits pasted text into targets, skipping blank lines and `#` comments. */
+export function splitTargets(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+}
+
+const indent = (text: string, prefix: string) => text.split('\n').join(`\n${prefix}`);
+
+function renderMarkdownTable(cards: SnippetCard[], columns: number, options: SnippetOptions): string {
+  const rows: string[] = [
+    `|${'  |'.repeat(columns)}`,
+    `|${' --- |'.repeat(columns)}`,
+  ];
+  for (let i = 0; i < cards.length; i += columns) {
+    const cells = cards.slice(i, i + columns).map((card) => renderMarkdown(card, options));
+    while (cells.length < columns) cells.push('');
+    rows.push(`| ${cells.join(' | ')} |`);
+  }
+  return rows.join('\n');
+}
+
+const htmlBlock = (tag: string, cards: SnippetCard[], options: SnippetOptions, align?: string) =>
+  `<${tag}${align ? ` align="${align}"` : ''}>\n${cards.map((card) => `  ${renderHtml(card, options)}`).join('\n')}\n</${tag}>`;
+
+/**
+ * Renders every card into one snippet, e.g. a Markdown table or an HTML `<div>`.
+ * Alignment applies to the whole group where the format allows it.
+ */
+export function renderBatch(
+  cards: SnippetCard[],
+  format: BatchFormat,
+  options: SnippetOptions = {},
+  columns = 2,
+): string {
+  if (cards.length === 0) return '';
+  const { align, ...cardOptions } = options;
+
+  switch (format) {
+    case 'url':
+      return cards.map((card) => card.imageUrl).join('\n');
+    case 'markdown':
+      return align
+        ? htmlBlock('p', cards, cardOptions, align)
+        : cards.map((card) => renderMarkdown(card, cardOptions)).join('\n');
+    case 'markdown-table':
+      return renderMarkdownTable(cards, Math.max(1, columns), cardOptions);
+    case 'rst':
+      return cards.map((card) => `- ${indent(renderRst(card, options), '  ')}`).join('\n');
+    case 'asciidoc':
+      return cards.map((card) => renderAsciidoc(card, options)).join(align ? '\n\n' : '\n');
+    case 'html':
+      return htmlBlock('div', cards, cardOptions, align);
+  }
+}
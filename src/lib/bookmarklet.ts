@@ -0,0 +1,19 @@
+/** Where the web app is deployed; the extension popup links back here. */
+export const APP_URL = 'https://github-card-creator.vercel.app';
+
+export const POPUP_WIDTH = 440;
+export const POPUP_HEIGHT = 720;
+
+/** The popup's address for a page, e.g. `https://…/popup.html?url=https%3A%2F%2Fgithub.com%2F…`. */
+export function popupUrl(pageUrl: string, appUrl: string = APP_URL): string {
+  const url = new URL('popup.html', appUrl.endsWith('/') ? appUrl : `${appUrl}/`);
+  url.searchParams.set('url', pageUrl);
+  return url.href;
+}
+
+/** A `javascript:` link that opens the popup for the page it's clicked on. */
+export function createBookmarklet(appUrl: string = APP_URL): string {
+  const base = popupUrl('', appUrl);
+  const features = `width=${POPUP_WIDTH},height=${POPUP_HEIGHT}`;
+  return `javascript:(()=>{window.open(${JSON.stringify(base)}+encodeURIComponent(location.href),'github-card-creator',${JSON.stringify(features)})})()`;
+}
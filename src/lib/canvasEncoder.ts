@@ -0,0 +1,44 @@
+import { fitSize, type ImageEncoder } from './exportImage';
+
+/**
+ * Decodes through an `<img>` rather than `createImageBitmap`, which rejects
+ * SVG, the image type of hosts that render cards locally.
+ */
+const loadImage = async (image: Blob): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(image);
+  try {
+    const element = new Image();
+    element.src = url;
+    await element.decode();
+    return element;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/** Draws the image onto a canvas. */
+export const canvasEncoder: ImageEncoder = async (image, { mimeType, width, height, quality }) => {
+  const element = await loadImage(image);
+  const size = fitSize(element.naturalWidth, element.naturalHeight, width, height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser');
+
+  // JPEG has no alpha channel, so transparent pixels would otherwise turn black.
+  if (mimeType === 'image/jpeg') {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, size.width, size.height);
+  }
+  context.drawImage(element, 0, 0, size.width, size.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error(`This browser can't encode ${mimeType}`))),
+      mimeType,
+      quality,
+    );
+  });
+};
@@ -0,0 +1,270 @@
+import type { CardType, FormData } from '../types';
+
+export type CardField = 'user' | 'repo' | 'num' | 'tag' | 'ref' | 'path';
+
+export interface FieldSpec {
+  name: CardField;
+  label: string;
+  placeholder: string;
+  numeric?: boolean;
+  /** Checked after the field is known to be filled in. */
+  pattern?: RegExp;
+  patternMessage?: string;
+}
+
+export interface CardTypeDefinition {
+  id: CardType;
+  label: string;
+  icon: string;
+  /** Accent color for badges and the local SVG card. */
+  color: string;
+  /** Required fields, in form order. */
+  fields: FieldSpec[];
+  /** Path on the host, e.g. `octocat/Hello-World/issues/1`. */
+  path: (data: FormData) => string;
+  /** Short suffix after `owner/repo`, e.g. `#1` or `@v1.0.0`, used in alt text and on the SVG card. */
+  reference: (data: FormData) => string;
+  /**
+   * `opengraph` images come from the host's image endpoint; `avatar` uses the
+   * owner's profile picture, for pages GitHub has no card image for.
+   */
+  image: 'opengraph' | 'avatar';
+  /** Overrides `{host}/{path}` as the card's link. */
+  pageUrl?: (baseUrl: string, data: FormData) => string;
+}
+
+// GitHub's rules: account names are up to 39 letters, digits or single hyphens, without a
+// leading or trailing hyphen; repository names are up to 100 letters, digits, `.`, `-` or `_`.
+// Enterprise Managed Users add their enterprise's shortcode, e.g. `octocat_acme`.
+const ACCOUNT_NAME = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i;
+const ACCOUNT_NAME_MESSAGE = "can have up to 39 letters, digits or single hyphens, and can't start or end with a hyphen";
+const USER_NAME = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}(?:_[a-z\d]+)?$/i;
+const REPO_NAME = /^(?!\.\.?$)[\w.-]{1,100}$/;
+
+// `git check-ref-format`: no spaces, control characters or any of `~^:?*[\`, no `..`, `@{` or `//`,
+// no component starting with `.`, and no leading `/` or trailing `/`, `.` or `.lock`.
+const GIT_REF = /^(?![/.]|.*(?:\.\.|@\{|\/\/|\/\.|[/.]$|\.lock$))[^\s~^:?*[\\\p{Cc}]+$/u;
+
+const USER: FieldSpec = {
+  name: 'user',
+  label: 'GitHub Username',
+  placeholder: 'e.g., octocat',
+  pattern: USER_NAME,
+  patternMessage: `Username ${ACCOUNT_NAME_MESSAGE}, plus an optional _shortcode for managed users`,
+};
+const REPO: FieldSpec = {
+  name: 'repo',
+  label: 'Repository Name',
+  placeholder: 'e.g., Hello-World',
+  pattern: REPO_NAME,
+  patternMessage: "Repository name can have up to 100 letters, digits, '.', '-' or '_'",
+};
+
+const refField = (label: string, placeholder: string): FieldSpec => ({
+  name: 'ref',
+  label,
+  placeholder,
+  pattern: GIT_REF,
+  patternMessage: `${label} isn't a valid Git ref name`,
+});
+
+const numberField = (label: string, placeholder = 'e.g., 1'): FieldSpec => ({
+  name: 'num',
+  label,
+  placeholder,
+  numeric: true,
+});
+
+// Tags, refs and file paths can hold spaces, `#` or `?`. Slashes are kept,
+// since GitHub reads them as part of the ref or path.
+const encodePath = (value = '') => value.split('/').map(encodeURIComponent).join('/');
+
+const repoPath = (data: FormData, suffix = '') =>
+  `${encodeURIComponent(data.user)}/${encodeURIComponent(data.repo)}${suffix}`;
+
+const CARD_TYPE_TABLE: Record<CardType, Omit<CardTypeDefinition, 'id'>> = {
+  repository: {
+    label: 'Repository',
+    icon: '📁',
+    color: '#2f81f7',
+    fields: [USER, REPO],
+    path: (data) => repoPath(data),
+    reference: () => '',
+    image: 'opengraph',
+  },
+  issue: {
+    label: 'Issue',
+    icon: '🐛',
+    color: '#1a7f37',
+    fields: [USER, REPO, numberField('Issue Number')],
+    path: (data) => repoPath(data, `/issues/${data.num}`),
+    reference: (data) => `#${data.num}`,
+    image: 'opengraph',
+  },
+  'pull-request': {
+    label: 'Pull Request',
+    icon: '🔄',
+    color: '#8250df',
+    fields: [USER, REPO, numberField('Pull Request Number')],
+    path: (data) => repoPath(data, `/pull/${data.num}`),
+    reference: (data) => `#${data.num}`,
+    image: 'opengraph',
+  },
+  discussion: {
+    label: 'Discussion',
+    icon: '💬',
+    color: '#0969da',
+    fields: [USER, REPO, numberField('Discussion Number')],
+    path: (data) => repoPath(data, `/discussions/${data.num}`),
+    reference: (data) => `#${data.num}`,
+    image: 'opengraph',
+  },
+  release: {
+    label: 'Release',
+    icon: '🚀',
+    color: '#bf8700',
+    fields: [USER, REPO, { ...refField('Release Tag', 'e.g., 1.0.0'), name: 'tag' }],
+    path: (data) => repoPath(data, `/releases/tag/${encodePath(data.tag)}`),
+    reference: (data) => `@${data.tag}`,
+    image: 'opengraph',
+  },
+  commit: {
+    label: 'Commit',
+    icon: '📌',
+    color: '#6e7781',
+    fields: [
+      USER,
+      REPO,
+      {
+        name: 'ref',
+        label: 'Commit SHA',
+        placeholder: 'e.g., 7fd1a60',
+        pattern: /^[0-9a-f]{7,40}$/i,
+        patternMessage: 'Commit SHA must be 7 to 40 hexadecimal characters',
+      },
+    ],
+    path: (data) => repoPath(data, `/commit/${encodePath(data.ref)}`),
+    reference: (data) => `@${data.ref?.slice(0, 7)}`,
+    image: 'opengraph',
+  },
+  compare: {
+    label: 'Compare',
+    icon: '↔️',
+    color: '#6e7781',
+    fields: [
+      USER,
+      REPO,
+      {
+        name: 'ref',
+        label: 'Range',
+        placeholder: 'e.g., v1.0.0...main',
+        pattern: /^\S+\.{2,3}\S+$/,
+        patternMessage: 'Range must look like base...head',
+      },
+    ],
+    path: (data) => repoPath(data, `/compare/${encodePath(data.ref)}`),
+    reference: (data) => ` ${data.ref}`,
+    image: 'opengraph',
+  },
+  file: {
+    label: 'File',
+    icon: '📄',
+    color: '#6e7781',
+    fields: [
+      USER,
+      REPO,
+      refField('Branch, Tag or Commit', 'e.g., main'),
+      { name: 'path', label: 'File Path', placeholder: 'e.g., README.md' },
+    ],
+    path: (data) => repoPath(data, `/blob/${encodePath(data.ref)}/${encodePath(data.path?.replace(/^\/+/, ''))}`),
+    reference: (data) => `/${data.path?.replace(/^\/+/, '')}@${data.ref}`,
+    image: 'opengraph',
+  },
+  milestone: {
+    label: 'Milestone',
+    icon: '🏁',
+    color: '#1a7f37',
+    fields: [USER, REPO, numberField('Milestone Number')],
+    path: (data) => repoPath(data, `/milestone/${data.num}`),
+    reference: (data) => ` milestone ${data.num}`,
+    image: 'opengraph',
+  },
+  'workflow-run': {
+    label: 'Workflow Run',
+    icon: '⚙️',
+    color: '#bf8700',
+    fields: [USER, REPO, numberField('Run ID', 'e.g., 5834719485')],
+    path: (data) => repoPath(data, `/actions/runs/${data.num}`),
+    reference: (data) => ` run ${data.num}`,
+    image: 'opengraph',
+  },
+  user: {
+    label: 'User',
+    icon: '👤',
+    color: '#2f81f7',
+    fields: [USER],
+    path: (data) => encodeURIComponent(data.user),
+    reference: () => '',
+    image: 'avatar',
+  },
+  organization: {
+    label: 'Organization',
+    icon: '🏢',
+    color: '#2f81f7',
+    fields: [
+      {
+        ...USER,
+        label: 'Organization Name',
+        placeholder: 'e.g., github',
+        pattern: ACCOUNT_NAME,
+        patternMessage: `Organization name ${ACCOUNT_NAME_MESSAGE}`,
+      },
+    ],
+    path: (data) => encodeURIComponent(data.user),
+    reference: () => '',
+    image: 'avatar',
+  },
+  gist: {
+    label: 'Gist',
+    icon: '📝',
+    color: '#6e7781',
+    fields: [
+      USER,
+      {
+        name: 'ref',
+        label: 'Gist ID',
+        placeholder: 'e.g., 6cad326836d38bd3a7ae',
+        pattern: /^[0-9a-f]+$/i,
+        patternMessage: 'Gist ID must be hexadecimal',
+      },
+    ],
+    path: (data) => `gist/${encodeURIComponent(data.user)}/${encodePath(data.ref)}`,
+    reference: (data) => ` gist ${data.ref?.slice(0, 7)}`,
+    image: 'avatar',
+    // github.com serves gists from a subdomain; GitHub Enterprise Server uses /gist on the same host.
+    pageUrl: (baseUrl, data) => {
+      const gistUrl = /^https?:\/\/(www\.)?github\.com$/.test(baseUrl) ? 'https://gist.github.com' : `${baseUrl}/gist`;
+      return `${gistUrl}/${encodeURIComponent(data.user)}/${encodePath(data.ref)}`;
+    },
+  },
+};
+
+export const CARD_TYPES: CardTypeDefinition[] = Object.entries(CARD_TYPE_TABLE).map(([id, definition]) => ({
+  id: id as CardType,
+  ...definition,
+}));
+
+const byId = new Map(CARD_TYPES.map((definition) => [definition.id, definition]));
+
+export function getCardType(id: CardType): CardTypeDefinition {
+  return byId.get(id) ?? byId.get('repository')!;
+}
+
+export function isCardType(value: unknown): value is CardType {
+  return typeof value === 'string' && byId.has(value as CardType);
+}
+
+/** Whether the card type's form includes `field`. */
+export function hasField(type: CardType, field: CardField): boolean {
+  return getCardType(type).fields.some((spec) => spec.name === field);
+}
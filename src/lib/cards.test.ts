@@ -0,0 +1,277 @@
+import { describe, expect, it } from 'vitest';
+import { buildCardUrls, cardFileName, generateCard, validateCard } from './cards';
+import { CARD_TYPES } from './cardTypes';
+import { getFormats } from './formats';
+import type { CardMetadata } from './metadata';
+import type { SnippetOptions } from './snippets';
+import type { CardType, FormData } from '../types';
+
+const OPENGRAPH = 'https://opengraph.githubassets.com';
+const ISSUE_HASH = 'b6a06c2c07355775735f11a24ef1d78d281fed7ede1bb44404de8b132b2ef3a2';
+const REPO_HASH = '54c6dafcd9f93d895328fdc57409345555ea517c7c4d4ad9b75d0a4208404735';
+const RELEASE_HASH = 'b615556068ae0a4eac8cdf43913fe90633b0ffb071313f8cbfb13265f1e9e52c';
+
+const card = (type: CardType, fields: Partial<FormData> = {}): FormData => ({
+  type,
+  user: 'octocat',
+  repo: 'Hello-World',
+  ...fields,
+});
+
+/** A valid card of every type, with the page and image URLs it should get on github.com. */
+const EXAMPLES: Record<CardType, { data: FormData; githubUrl: string; imageUrl: string }> = {
+  repository: {
+    data: card('repository'),
+    githubUrl: 'https://github.com/octocat/Hello-World',
+    imageUrl: `${OPENGRAPH}/${REPO_HASH}/octocat/Hello-World`,
+  },
+  issue: {
+    data: card('issue', { num: 1 }),
+    githubUrl: 'https://github.com/octocat/Hello-World/issues/1',
+    imageUrl: `${OPENGRAPH}/${ISSUE_HASH}/octocat/Hello-World/issues/1`,
+  },
+  'pull-request': {
+    data: card('pull-request', { num: 2 }),
+    githubUrl: 'https://github.com/octocat/Hello-World/pull/2',
+    imageUrl: `${OPENGRAPH}/${ISSUE_HASH}/octocat/Hello-World/pull/2`,
+  },
+  discussion: {
+    data: card('discussion', { num: 3 }),
+    githubUrl: 'https://github.com/octocat/Hello-World/discussions/3',
+    imageUrl: `${OPENGRAPH}/${RELEASE_HASH}/octocat/Hello-World/discussions/3`,
+  },
+  release: {
+    data: card('release', { tag: 'v1.0.0' }),
+    githubUrl: 'https://github.com/octocat/Hello-World/releases/tag/v1.0.0',
+    imageUrl: `${OPENGRAPH}/${RELEASE_HASH}/octocat/Hello-World/releases/tag/v1.0.0`,
+  },
+  commit: {
+    data: card('commit', { ref: '7fd1a60b01f91b314f59955a4e4d4e80d8edf11d' }),
+    githubUrl: 'https://github.com/octocat/Hello-World/commit/7fd1a60b01f91b314f59955a4e4d4e80d8edf11d',
+    imageUrl: `${OPENGRAPH}/${REPO_HASH}/octocat/Hello-World/commit/7fd1a60b01f91b314f59955a4e4d4e80d8edf11d`,
+  },
+  compare: {
+    data: card('compare', { ref: 'v1.0.0...main' }),
+    githubUrl: 'https://github.com/octocat/Hello-World/compare/v1.0.0...main',
+    imageUrl: `${OPENGRAPH}/${REPO_HASH}/octocat/Hello-World/compare/v1.0.0...main`,
+  },
+  file: {
+    data: card('file', { ref: 'main', path: 'docs/README.md' }),
+    githubUrl: 'https://github.com/octocat/Hello-World/blob/main/docs/README.md',
+    imageUrl: `${OPENGRAPH}/${REPO_HASH}/octocat/Hello-World/blob/main/docs/README.md`,
+  },
+  milestone: {
+    data: card('milestone', { num: 4 }),
+    githubUrl: 'https://github.com/octocat/Hello-World/milestone/4',
+    imageUrl: `${OPENGRAPH}/${REPO_HASH}/octocat/Hello-World/milestone/4`,
+  },
+  'workflow-run': {
+    data: card('workflow-run', { num: 5834719485 }),
+    githubUrl: 'https://github.com/octocat/Hello-World/actions/runs/5834719485',
+    imageUrl: `${OPENGRAPH}/${REPO_HASH}/octocat/Hello-World/actions/runs/5834719485`,
+  },
+  user: {
+    data: card('user', { repo: '' }),
+    githubUrl: 'https://github.com/octocat',
+    imageUrl: 'https://github.com/octocat.png',
+  },
+  organization: {
+    data: card('organization', { user: 'github', repo: '' }),
+    githubUrl: 'https://github.com/github',
+    imageUrl: 'https://github.com/github.png',
+  },
+  gist: {
+    data: card('gist', { repo: '', ref: '6cad326836d38bd3a7ae' }),
+    githubUrl: 'https://gist.github.com/octocat/6cad326836d38bd3a7ae',
+    imageUrl: 'https://github.com/octocat.png',
+  },
+};
+
+describe('validateCard', () => {
+  it('has an example for every card type', () => {
+    expect(Object.keys(EXAMPLES).sort()).toEqual(CARD_TYPES.map((type) => type.id).sort());
+  });
+
+  it.each(CARD_TYPES.map((type) => type.id))('accepts a complete %s card', (type) => {
+    expect(validateCard(EXAMPLES[type].data)).toEqual([]);
+  });
+
+  it.each(CARD_TYPES)('requires every $id field', (definition) => {
+    const empty: FormData = { type: definition.id, user: '', repo: '' };
+    expect(validateCard(empty)).toEqual(
+      definition.fields.map((field) => ({ field: field.name, message: `${field.label} is required` })),
+    );
+  });
+
+  it('rejects numbers that are not positive integers', () => {
+    for (const num of [0, -1, 1.5]) {
+      expect(validateCard(card('issue', { num }))).toEqual([
+        { field: 'num', message: 'Issue Number must be a positive integer' },
+      ]);
+    }
+  });
+
+  it('checks names and refs against their patterns', () => {
+    expect(validateCard(card('repository', { user: '-octocat' })).map((e) => e.field)).toEqual(['user']);
+    expect(validateCard(card('repository', { user: 'octocat_acme' }))).toEqual([]);
+    expect(validateCard(card('user', { repo: '', user: 'octocat_acme_corp' })).map((e) => e.field)).toEqual(['user']);
+    expect(validateCard(card('organization', { repo: '', user: 'github_acme' })).map((e) => e.field)).toEqual(['user']);
+    expect(validateCard(card('repository', { repo: 'Hello World' })).map((e) => e.field)).toEqual(['repo']);
+    expect(validateCard(card('release', { tag: 'v1..0' })).map((e) => e.field)).toEqual(['tag']);
+    expect(validateCard(card('commit', { ref: 'xyz' }))).toEqual([
+      { field: 'ref', message: 'Commit SHA must be 7 to 40 hexadecimal characters' },
+    ]);
+    expect(validateCard(card('compare', { ref: 'main' })).map((e) => e.field)).toEqual(['ref']);
+    expect(validateCard(card('gist', { repo: '', ref: 'not-hex' })).map((e) => e.field)).toEqual(['ref']);
+  });
+});
+
+describe('buildCardUrls', () => {
+  it.each(CARD_TYPES.map((type) => type.id))('builds the %s URLs', (type) => {
+    const { data, githubUrl, imageUrl } = EXAMPLES[type];
+    expect(buildCardUrls(data)).toEqual({ githubUrl, imageUrl });
+  });
+
+  it('encodes tags, refs and file paths, keeping their slashes', () => {
+    expect(buildCardUrls(card('file', { ref: 'release/1.x', path: 'docs/a b#c.md' })).githubUrl).toBe(
+      'https://github.com/octocat/Hello-World/blob/release/1.x/docs/a%20b%23c.md',
+    );
+    expect(buildCardUrls(card('release', { tag: 'v1.0 beta?' })).imageUrl).toBe(
+      `${OPENGRAPH}/${RELEASE_HASH}/octocat/Hello-World/releases/tag/v1.0%20beta%3F`,
+    );
+    expect(buildCardUrls(card('compare', { ref: 'main...feature/a#b' })).githubUrl).toBe(
+      'https://github.com/octocat/Hello-World/compare/main...feature/a%23b',
+    );
+  });
+
+  it('uses a custom host and image endpoint', () => {
+    const host = {
+      baseUrl: 'https://github.example.com/',
+      image: { kind: 'opengraph' as const, endpoint: 'https://cards.example.com/{owner}/{repo}.png' },
+    };
+    expect(buildCardUrls(EXAMPLES.issue.data, host)).toEqual({
+      githubUrl: 'https://github.example.com/octocat/Hello-World/issues/1',
+      imageUrl: 'https://cards.example.com/octocat/Hello-World.png',
+    });
+    expect(buildCardUrls(EXAMPLES.gist.data, host).githubUrl).toBe(
+      'https://github.example.com/gist/octocat/6cad326836d38bd3a7ae',
+    );
+  });
+
+  it('renders SVG data URIs for hosts without an image endpoint', () => {
+    const host = { baseUrl: 'https://github.example.com', image: { kind: 'svg' as const, theme: 'dark' as const } };
+    expect(buildCardUrls(EXAMPLES.repository.data, host).imageUrl).toMatch(/^data:image\/svg\+xml/);
+  });
+});
+
+describe('generateCard', () => {
+  it.each(CARD_TYPES.map((type) => type.id))('renders every format for a %s card', (type) => {
+    const { data, githubUrl, imageUrl } = EXAMPLES[type];
+    const result = generateCard(data);
+    if (!result.ok) throw new Error(result.errors[0].message);
+
+    expect(result).toMatchObject({ data, githubUrl, imageUrl });
+    expect(Object.keys(result.code)).toEqual(getFormats().map((format) => format.id));
+    for (const snippet of Object.values(result.code)) expect(snippet).toContain(imageUrl);
+  });
+
+  it('returns the validation errors instead of snippets', () => {
+    expect(generateCard(card('issue'))).toEqual({
+      ok: false,
+      errors: [{ field: 'num', message: 'Issue Number is required' }],
+    });
+  });
+});
+
+describe('snippets', () => {
+  const image = EXAMPLES.issue.imageUrl;
+  const page = EXAMPLES.issue.githubUrl;
+  const alt = 'octocat/Hello-World#1';
+
+  const render = (options: SnippetOptions = {}, metadata?: CardMetadata) => {
+    const result = generateCard(EXAMPLES.issue.data, options, undefined, metadata);
+    if (!result.ok) throw new Error(result.errors[0].message);
+    return result.code;
+  };
+
+  const EXPECTED: Record<string, string> = {
+    url: image,
+    markdown: `[![${alt}](${image})](${page})`,
+    rst: `.. image:: ${image}\n   :alt: ${alt}\n   :target: ${page}`,
+    asciidoc: `image:${image}[${alt},link="${page}",window=_blank]`,
+    html: `<a href="${page}" target="_blank"><img src="${image}" alt="${alt}" /></a>`,
+    mdx: `<a href="${page}" target="_blank"><img src="${image}" alt="${alt}" /></a>`,
+    bbcode: `[url=${page}][img]${image}[/img][/url]`,
+    textile: `!${image}(${alt})!:${page}`,
+    org: `#+ATTR_HTML: :alt ${alt}\n[[${page}][${image}]]`,
+    mediawiki: `[${page} ${image}]`,
+    'markdown-card': `[![${alt}](${image})](${page})`,
+    'html-card': `<a href="${page}" target="_blank"><img src="${image}" alt="${alt}" /></a>`,
+    meta: [
+      `<meta property="og:url" content="${page}" />`,
+      `<meta property="og:image" content="${image}" />`,
+      `<meta property="og:image:alt" content="${alt}" />`,
+      '<meta property="og:image:width" content="1200" />',
+      '<meta property="og:image:height" content="600" />',
+      '<meta name="twitter:card" content="summary_large_image" />',
+      `<meta name="twitter:image" content="${image}" />`,
+      `<meta name="twitter:image:alt" content="${alt}" />`,
+    ].join('\n'),
+  };
+
+  it.each(getFormats().map((format) => format.id))('renders %s', (id) => {
+    expect(render()[id]).toBe(EXPECTED[id]);
+  });
+
+  it('uses metadata in the card formats and meta tags', () => {
+    const code = render({}, { title: 'Found a bug', state: 'open', labels: ['bug'] });
+    expect(code['markdown-card']).toBe(
+      [
+        `[![${alt}: Found a bug](${image})](${page})`,
+        '',
+        `**[${alt}](${page})** Found a bug ![open](https://img.shields.io/badge/open-2da44e)`,
+        '',
+        '`bug`',
+      ].join('\n'),
+    );
+    expect(code['html-card']).toContain('<div class="github-card">');
+    expect(code['html-card']).toContain('<code>bug</code>');
+    expect(code.meta).toContain('<meta property="og:description" content="Found a bug" />');
+  });
+
+  it('applies alt text, sizing, alignment and link options in each format', () => {
+    expect(render({ alt: 'Issue {num}' }).markdown).toBe(`[![Issue 1](${image})](${page})`);
+
+    const code = render({ alt: 'Issue {num}', width: 600, align: 'center', newTab: false, noopener: true });
+    // Markdown has no alignment syntax, so it falls back to HTML.
+    expect(code.markdown).toContain('<p align="center">');
+    expect(code.rst).toContain('   :width: 600px\n');
+    expect(code.rst).toContain('   :align: center');
+    expect(code.html).toContain('width="600"');
+    expect(code.html).not.toContain('target="_blank"');
+    expect(code.asciidoc).toContain('width=600');
+  });
+
+  it('scales avatar cards as squares and describes them in the meta tags', () => {
+    const result = generateCard(EXAMPLES.user.data, { scale: 50 });
+    if (!result.ok) throw new Error(result.errors[0].message);
+
+    expect(result.imageSize).toEqual({ width: 460, height: 460 });
+    for (const id of ['html', 'mdx', 'bbcode', 'textile', 'org', 'asciidoc']) {
+      expect(result.code[id]).toMatch(/width[=:"{ ]+230(?!\d)/);
+      expect(result.code[id]).toMatch(/height[=:"{ ]+230(?!\d)/);
+    }
+    expect(result.code.meta).toContain('<meta property="og:image:width" content="460" />');
+    expect(result.code.meta).toContain('<meta property="og:image:height" content="460" />');
+    expect(result.code.meta).toContain('<meta name="twitter:card" content="summary" />');
+
+    const wide = generateCard(EXAMPLES.repository.data, { scale: 50 });
+    expect(wide.ok && wide.code.html).toContain('width="600" height="300"');
+  });
+});
+
+describe('cardFileName', () => {
+  it('turns the card path into a file name', () => {
+    expect(cardFileName(EXAMPLES.issue.data, 'png')).toBe('octocat-Hello-World-issues-1.png');
+  });
+});
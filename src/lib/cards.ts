@@ -0,0 +1,103 @@
+import { getCardType } from './cardTypes';
+import { renderSnippets } from './formats';
+import { GITHUB_HOST, expandImageEndpoint, hostBaseUrl, hostName, type HostProfile } from './hosts';
+import type { CardMetadata } from './metadata';
+import { AVATAR_SIZE, CARD_SIZE, type ImageSize, type SnippetOptions } from './snippets';
+import { renderSvgCard, svgDataUri } from './svgCard';
+import type { CardType, CodeData, FormData } from '../types';
+
+export interface ValidationError {
+  field: keyof FormData;
+  message: string;
+}
+
+export interface CardUrls {
+  imageUrl: string;
+  githubUrl: string;
+}
+
+export type CardResult =
+  | ({ ok: true; data: FormData; code: CodeData; imageSize: ImageSize } & CardUrls)
+  | { ok: false; errors: ValidationError[] };
+
+// opengraph.githubassets.com ignores the hash segment's value but requires one.
+const OPENGRAPH_HASHES: Partial<Record<CardType, string>> = {
+  repository: '54c6dafcd9f93d895328fdc57409345555ea517c7c4d4ad9b75d0a4208404735',
+  issue: 'b6a06c2c07355775735f11a24ef1d78d281fed7ede1bb44404de8b132b2ef3a2',
+  'pull-request': 'b6a06c2c07355775735f11a24ef1d78d281fed7ede1bb44404de8b132b2ef3a2',
+  discussion: 'b615556068ae0a4eac8cdf43913fe90633b0ffb071313f8cbfb13265f1e9e52c',
+  release: 'b615556068ae0a4eac8cdf43913fe90633b0ffb071313f8cbfb13265f1e9e52c',
+};
+
+/** Checks the fields the card type requires, as listed in `CARD_TYPES`. */
+export function validateCard(data: FormData): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (const spec of getCardType(data.type).fields) {
+    const value = data[spec.name];
+    if (value === undefined || value === '') {
+      errors.push({ field: spec.name, message: `${spec.label} is required` });
+    } else if (spec.numeric && !(Number.isInteger(value) && Number(value) > 0)) {
+      errors.push({ field: spec.name, message: `${spec.label} must be a positive integer` });
+    } else if (spec.pattern && !spec.pattern.test(String(value))) {
+      errors.push({ field: spec.name, message: spec.patternMessage ?? `${spec.label} is invalid` });
+    }
+  }
+
+  return errors;
+}
+
+/** Path of the card's target relative to the host, e.g. `octocat/Hello-World/issues/1`. */
+export function cardPath(data: FormData): string {
+  return getCardType(data.type).path(data);
+}
+
+/** Builds the image and page URLs on `host` without validating `data`. */
+export function buildCardUrls(data: FormData, host: HostProfile = GITHUB_HOST): CardUrls {
+  const definition = getCardType(data.type);
+  const path = definition.path(data);
+  const baseUrl = hostBaseUrl(host);
+  const githubUrl = definition.pageUrl?.(baseUrl, data) ?? `${baseUrl}/${path}`;
+
+  if (host.image.kind === 'svg') {
+    const svg = renderSvgCard(data, { theme: host.image.theme, host: hostName(host) });
+    return { imageUrl: svgDataUri(svg), githubUrl };
+  }
+
+  if (definition.image === 'avatar') {
+    return { imageUrl: `${baseUrl}/${encodeURIComponent(data.user)}.png`, githubUrl };
+  }
+
+  const imageUrl = expandImageEndpoint(host.image.endpoint, {
+    path,
+    owner: data.user,
+    repo: data.repo,
+    type: data.type,
+    hash: OPENGRAPH_HASHES[data.type] ?? OPENGRAPH_HASHES.repository!,
+  });
+  return { imageUrl, githubUrl };
+}
+
+/** The natural size of the card's image on `host`: an avatar, or the wide card every other image is. */
+export function cardImageSize(data: FormData, host: HostProfile = GITHUB_HOST): ImageSize {
+  return getCardType(data.type).image === 'avatar' && host.image.kind !== 'svg' ? AVATAR_SIZE : CARD_SIZE;
+}
+
+/** Validates `data` and renders every snippet for it, using `metadata` for the richer formats. */
+export function generateCard(
+  data: FormData,
+  options: SnippetOptions = {},
+  host: HostProfile = GITHUB_HOST,
+  metadata?: CardMetadata,
+): CardResult {
+  const errors = validateCard(data);
+  if (errors.length > 0) return { ok: false, errors };
+
+  const card = { ...buildCardUrls(data, host), imageSize: cardImageSize(data, host), data, metadata };
+  return { ok: true, ...card, code: renderSnippets(card, options) };
+}
+
+/** A file name for the card, e.g. `octocat-Hello-World-issues-1.png` for `png`. */
+export function cardFileName(data: FormData, extension: string): string {
+  return `${cardPath(data).replace(/[^\w.-]+/g, '-')}.${extension}`;
+}
@@ -0,0 +1,52 @@
+/** Plain text, plus HTML for editors that paste rich text, such as Google Docs, Slack or Confluence. */
+export interface ClipboardContent {
+  text: string;
+  html?: string;
+}
+
+export type CopyResult = { ok: true } | { ok: false; error: string };
+
+const copyWithClipboardApi = async ({ text, html }: ClipboardContent) => {
+  if (!navigator.clipboard) throw new Error('The Clipboard API is unavailable on this page');
+
+  if (html && typeof ClipboardItem !== 'undefined') {
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        'text/html': new Blob([html], { type: 'text/html' }),
+        'text/plain': new Blob([text], { type: 'text/plain' }),
+      }),
+    ]);
+    return;
+  }
+  await navigator.clipboard.writeText(text);
+};
+
+// `execCommand` is deprecated, but it still works where the Clipboard API is missing or denied, e.g. over plain http.
+const copyWithCommand = ({ text, html }: ClipboardContent): boolean => {
+  const handleCopy = (event: ClipboardEvent) => {
+    if (!event.clipboardData) return;
+    event.clipboardData.setData('text/plain', text);
+    if (html) event.clipboardData.setData('text/html', html);
+    event.preventDefault();
+  };
+
+  document.addEventListener('copy', handleCopy);
+  try {
+    return document.execCommand('copy');
+  } catch {
+    return false;
+  } finally {
+    document.removeEventListener('copy', handleCopy);
+  }
+};
+
+/** Copies `content`, falling back to the copy command when the Clipboard API fails. */
+export async function writeClipboard(content: ClipboardContent): Promise<CopyResult> {
+  try {
+    await copyWithClipboardApi(content);
+    return { ok: true };
+  } catch (err) {
+    if (copyWithCommand(content)) return { ok: true };
+    return { ok: false, error: (err as Error).message };
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseCardState, serializeCardState } from './deepLink';
+import { GITHUB_HOST } from './hosts';
+import type { FormData } from '../types';
+
+const ISSUE: FormData = { type: 'issue', user: 'octocat', repo: 'Hello-World', num: 1, tag: '', ref: '', path: '' };
+
+describe('serializeCardState', () => {
+  it('writes only the fields the card has', () => {
+    expect(serializeCardState({ data: ISSUE, format: 'rst' })).toBe('type=issue&user=octocat&repo=Hello-World&num=1&format=rst');
+    expect(serializeCardState({ data: { type: 'user', user: 'octocat', repo: '' } })).toBe('type=user&user=octocat');
+  });
+});
+
+describe('parseCardState', () => {
+  it.each<FormData>([
+    ISSUE,
+    { type: 'repository', user: 'octocat', repo: 'Hello-World', num: undefined, tag: '', ref: '', path: '' },
+    { type: 'release', user: 'octocat', repo: 'Hello-World', num: undefined, tag: 'v1.0 beta&1', ref: '', path: '' },
+    { type: 'file', user: 'octocat', repo: 'Hello-World', num: undefined, tag: '', ref: 'main', path: 'docs/a b#c.md' },
+    { type: 'organization', user: 'github', repo: '', num: undefined, tag: '', ref: '', path: '' },
+  ])('round-trips a $type card', (data) => {
+    expect(parseCardState(serializeCardState({ data, format: 'html' }))).toEqual({ data, format: 'html', host: GITHUB_HOST });
+  });
+
+  it('accepts a leading ? and leaves the format out when it is missing or unknown', () => {
+    const search = `?${serializeCardState({ data: ISSUE })}`;
+    expect(parseCardState(search)).toEqual({ data: ISSUE, format: undefined, host: GITHUB_HOST });
+    expect(parseCardState(`${search}&format=pdf`)?.format).toBeUndefined();
+  });
+
+  it('drops numbers that are not positive integers', () => {
+    for (const num of ['abc', '0', '-1', '1.5', '']) {
+      expect(parseCardState(`type=issue&user=octocat&repo=Hello-World&num=${num}`)?.data.num).toBeUndefined();
+    }
+  });
+
+  it.each([
+    ['', 'no card'],
+    ['type=wiki&user=octocat&repo=Hello-World', 'an unknown type'],
+    ['type=issue&repo=Hello-World&num=1', 'no user'],
+    ['type=issue&user=octocat&num=1', 'no repository for a repository card'],
+  ])('returns null for %s (%s)', (search) => {
+    expect(parseCardState(search)).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import { hasField, isCardType } from './cardTypes';
+import { getFormat } from './formats';
+import {
+  GITHUB_HOST,
+  GITHUB_URL,
+  OPENGRAPH_ENDPOINT,
+  hostBaseUrl,
+  validateHostProfile,
+  type HostProfile,
+} from './hosts';
+import type { CardTheme } from './svgCard';
+import type { FormData, OutputFormat } from '../types';
+
+export interface CardState {
+  data: FormData;
+  format?: OutputFormat;
+  /** github.com when left out. */
+  host?: HostProfile;
+}
+
+const isDefaultHost = (host: HostProfile) =>
+  hostBaseUrl(host) === GITHUB_URL && host.image.kind === 'opengraph' && host.image.endpoint === OPENGRAPH_ENDPOINT;
+
+/** `image` is the OpenGraph endpoint, or `svg:<theme>` for locally rendered cards. */
+const serializeImage = (host: HostProfile) =>
+  host.image.kind === 'svg' ? `svg:${host.image.theme}` : host.image.endpoint;
+
+/** Reads `host` and `image`, giving github.com when there's no `host` and `null` when they're invalid. */
+const parseHost = (params: URLSearchParams): HostProfile | null => {
+  const baseUrl = params.get('host');
+  if (!baseUrl) return GITHUB_HOST;
+
+  const image = params.get('image') || OPENGRAPH_ENDPOINT;
+  const host: HostProfile = image.startsWith('svg:')
+    ? { baseUrl, image: { kind: 'svg', theme: image.slice('svg:'.length) as CardTheme } }
+    : { baseUrl, image: { kind: 'opengraph', endpoint: image } };
+  return validateHostProfile(host) ? null : host;
+};
+
+/**
+ * Encodes the card as query parameters, e.g. `type=issue&user=octocat&repo=Hello-World&num=1`.
+ * Cards on another host also carry `host` and `image`, so the link opens on that host.
+ */
+export function serializeCardState({ data, format, host }: CardState): string {
+  const params = new URLSearchParams({ type: data.type, user: data.user });
+  if (data.repo) params.set('repo', data.repo);
+  if (data.num) params.set('num', String(data.num));
+  if (data.tag) params.set('tag', data.tag);
+  if (data.ref) params.set('ref', data.ref);
+  if (data.path) params.set('path', data.path);
+  if (format) params.set('format', format);
+  if (host && !isDefaultHost(host)) {
+    params.set('host', hostBaseUrl(host));
+    params.set('image', serializeImage(host));
+  }
+  return params.toString();
+}
+
+/** Reads a card from a query string, returning `null` when it doesn't describe one or names an invalid host. */
+export function parseCardState(search: string): CardState | null {
+  const params = new URLSearchParams(search);
+  const type = params.get('type');
+  const user = params.get('user');
+  const repo = params.get('repo') ?? '';
+  if (!isCardType(type) || !user || (!repo && hasField(type, 'repo'))) return null;
+
+  const host = parseHost(params);
+  if (!host) return null;
+
+  const data: FormData = { type, user, repo, num: undefined, tag: '' };
+  const num = Number(params.get('num'));
+  if (Number.isInteger(num) && num > 0) data.num = num;
+  data.tag = params.get('tag') ?? '';
+  data.ref = params.get('ref') ?? '';
+  data.path = params.get('path') ?? '';
+
+  const format = params.get('format');
+  return { data, format: format && getFormat(format) ? format : undefined, host };
+}
@@ -0,0 +1,100 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  blobToDataUri,
+  createImageFetcher,
+  exportCardImage,
+  fitSize,
+  imageFileName,
+  type ImageEncoder,
+} from './exportImage';
+import { startTestServer, type TestServer } from '../../test/testServer';
+
+const PNG = Buffer.from('89504e470d0a1a0a', 'hex');
+const CARD_URL = 'https://opengraph.githubassets.com/hash/octocat/Hello-World/issues/1';
+
+let server: TestServer;
+const requests: string[] = [];
+
+beforeAll(async () => {
+  server = await startTestServer((req, res) => {
+    requests.push(req.url ?? '');
+    if (req.url?.startsWith('/hash/')) {
+      res.writeHead(200, { 'content-type': 'image/png' }).end(PNG);
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+});
+
+afterAll(() => server.close());
+
+describe('createImageFetcher', () => {
+  it('fetches the image path and query from the base URL', async () => {
+    const fetcher = createImageFetcher({ baseUrl: server.url });
+    const blob = await fetcher(`${CARD_URL}?v=2`);
+
+    expect(requests.at(-1)).toBe('/hash/octocat/Hello-World/issues/1?v=2');
+    expect(blob.type).toBe('image/png');
+    expect(Buffer.from(await blob.arrayBuffer())).toEqual(PNG);
+  });
+
+  it('rejects with the status of a failed request', async () => {
+    const fetcher = createImageFetcher({ baseUrl: server.url });
+    await expect(fetcher('https://example.com/missing.png')).rejects.toThrow('Image request failed with status 404');
+  });
+});
+
+describe('exportCardImage', () => {
+  const fetcher = () => createImageFetcher({ baseUrl: server.url });
+
+  it('returns the original bytes when the type and size already match', async () => {
+    const result = await exportCardImage(CARD_URL, { format: 'png', fetcher: fetcher() });
+    if (!result.ok) throw new Error(result.error);
+    expect(Buffer.from(await result.blob.arrayBuffer())).toEqual(PNG);
+  });
+
+  it('passes conversions to the encoder', async () => {
+    const calls: Parameters<ImageEncoder>[1][] = [];
+    const encoder: ImageEncoder = async (_image, options) => {
+      calls.push(options);
+      return new Blob(['converted'], { type: options.mimeType });
+    };
+
+    const result = await exportCardImage(CARD_URL, { format: 'webp', width: 600, fetcher: fetcher(), encoder });
+    expect(result.ok && result.blob.type).toBe('image/webp');
+    expect(calls).toEqual([{ mimeType: 'image/webp', width: 600, height: undefined, quality: undefined }]);
+  });
+
+  it('reports fetch and conversion failures', async () => {
+    expect(await exportCardImage('https://example.com/missing.png', { format: 'png', fetcher: fetcher() })).toEqual({
+      ok: false,
+      error: 'Failed to fetch image: Image request failed with status 404',
+    });
+    expect(await exportCardImage(CARD_URL, { format: 'jpeg', fetcher: fetcher() })).toEqual({
+      ok: false,
+      error: 'No image encoder available to convert this image',
+    });
+    const broken: ImageEncoder = async () => {
+      throw new Error('unsupported');
+    };
+    expect(await exportCardImage(CARD_URL, { format: 'jpeg', fetcher: fetcher(), encoder: broken })).toEqual({
+      ok: false,
+      error: 'Failed to convert image: unsupported',
+    });
+  });
+});
+
+describe('helpers', () => {
+  it('keeps the aspect ratio when one side is given', () => {
+    expect(fitSize(1200, 600, 600)).toEqual({ width: 600, height: 300 });
+    expect(fitSize(1200, 600, undefined, 300)).toEqual({ width: 600, height: 300 });
+    expect(fitSize(1200, 600)).toEqual({ width: 1200, height: 600 });
+  });
+
+  it('encodes data URIs and file names', async () => {
+    expect(await blobToDataUri(new Blob([PNG], { type: 'image/png' }))).toBe('data:image/png;base64,iVBORw0KGgo=');
+    expect(imageFileName({ type: 'issue', user: 'octocat', repo: 'Hello-World', num: 1 }, 'jpeg')).toBe(
+      'octocat-Hello-World-issues-1.jpg',
+    );
+  });
+});
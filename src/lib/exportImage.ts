@@ -0,0 +1,120 @@
+import { cardFileName } from './cards';
+import { renderHtml, renderMarkdown, type SnippetCard, type SnippetOptions } from './snippets';
+import type { FormData } from '../types';
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+export const IMAGE_FORMATS: { id: ImageFormat; label: string; mimeType: string }[] = [
+  { id: 'png', label: 'PNG', mimeType: 'image/png' },
+  { id: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg' },
+  { id: 'webp', label: 'WebP', mimeType: 'image/webp' },
+];
+
+export interface EncodeOptions {
+  mimeType: string;
+  width?: number;
+  height?: number;
+  /** Between 0 and 1, for lossy formats. */
+  quality?: number;
+}
+
+/** Loads an image's bytes. Swap it out to go through a proxy or a local stub server. */
+export type ImageFetcher = (url: string) => Promise<Blob>;
+
+/** Converts an image to another type and size. */
+export type ImageEncoder = (image: Blob, options: EncodeOptions) => Promise<Blob>;
+
+export interface ExportOptions {
+  format: ImageFormat;
+  width?: number;
+  height?: number;
+  quality?: number;
+  fetcher?: ImageFetcher;
+  /** Needed whenever the type or size changes; the browser passes `canvasEncoder`. */
+  encoder?: ImageEncoder;
+}
+
+export type ExportResult = { ok: true; blob: Blob } | { ok: false; error: string };
+
+export interface ImageFetcherOptions {
+  /** Replaces the origin of every image URL, e.g. `http://localhost:8080`. */
+  baseUrl?: string;
+  fetch?: typeof fetch;
+}
+
+export function createImageFetcher({ baseUrl, fetch: fetchImpl = fetch }: ImageFetcherOptions = {}): ImageFetcher {
+  return async (url) => {
+    const target = new URL(url);
+    const requestUrl = baseUrl ? new URL(`${target.pathname}${target.search}`, baseUrl).href : url;
+
+    const response = await fetchImpl(requestUrl);
+    if (!response.ok) throw new Error(`Image request failed with status ${response.status}`);
+    return response.blob();
+  };
+}
+
+export const fetchImage: ImageFetcher = createImageFetcher();
+
+/** Asks for a fresh copy of a remote image on a retry; data URIs are simply reloaded. */
+export const retryImageUrl = (url: string, attempt: number) =>
+  attempt === 0 || !/^https?:/.test(url) ? url : `${url}${url.includes('?') ? '&' : '?'}retry=${attempt}`;
+
+/** Width and height for the output, keeping the aspect ratio when only one is given. */
+export function fitSize(
+  naturalWidth: number,
+  naturalHeight: number,
+  width?: number,
+  height?: number,
+): { width: number; height: number } {
+  if (width && height) return { width, height };
+  if (width) return { width, height: Math.round((naturalHeight * width) / naturalWidth) };
+  if (height) return { width: Math.round((naturalWidth * height) / naturalHeight), height };
+  return { width: naturalWidth, height: naturalHeight };
+}
+
+/** Fetches the card image and converts it, skipping the encoder when nothing would change. */
+export async function exportCardImage(url: string, options: ExportOptions): Promise<ExportResult> {
+  const { format, width, height, quality, fetcher = fetchImage, encoder } = options;
+  const mimeType = IMAGE_FORMATS.find((entry) => entry.id === format)?.mimeType;
+  if (!mimeType) return { ok: false, error: `Unsupported image format: ${format}` };
+
+  let image: Blob;
+  try {
+    image = await fetcher(url);
+  } catch (err) {
+    return { ok: false, error: `Failed to fetch image: ${(err as Error).message}` };
+  }
+
+  if (image.type === mimeType && !width && !height) return { ok: true, blob: image };
+  if (!encoder) return { ok: false, error: 'No image encoder available to convert this image' };
+
+  try {
+    return { ok: true, blob: await encoder(image, { mimeType, width, height, quality }) };
+  } catch (err) {
+    return { ok: false, error: `Failed to convert image: ${(err as Error).message}` };
+  }
+}
+
+export async function blobToDataUri(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked so large images don't overflow the argument limit of fromCharCode.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+}
+
+export function imageFileName(data: FormData, format: ImageFormat): string {
+  return cardFileName(data, format === 'jpeg' ? 'jpg' : format);
+}
+
+/** Markdown and HTML snippets that embed the image itself instead of linking to GitHub's copy. */
+export function renderDataUriSnippets(
+  card: SnippetCard,
+  dataUri: string,
+  options: SnippetOptions = {},
+): { markdown: string; html: string } {
+  const embedded = { ...card, imageUrl: dataUri };
+  return { markdown: renderMarkdown(embedded, options), html: renderHtml(embedded, options) };
+}
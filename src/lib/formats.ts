@@ -0,0 +1,57 @@
+import {
+  renderAsciidoc,
+  renderBbcode,
+  renderHtml,
+  renderHtmlCard,
+  renderMarkdown,
+  renderMarkdownCard,
+  renderMdx,
+  renderMediaWiki,
+  renderMetaTags,
+  renderOrg,
+  renderRst,
+  renderTextile,
+  type SnippetCard,
+  type SnippetOptions,
+} from './snippets';
+import type { CodeData, OutputFormat } from '../types';
+
+export interface FormatDefinition {
+  id: OutputFormat;
+  label: string;
+  render: (card: SnippetCard, options: SnippetOptions) => string;
+}
+
+const formats = new Map<OutputFormat, FormatDefinition>();
+
+/** Adds an output format, or replaces the one with the same id. Formats keep their registration order. */
+export function registerFormat(format: FormatDefinition): void {
+  formats.set(format.id, format);
+}
+
+export function getFormat(id: OutputFormat): FormatDefinition | undefined {
+  return formats.get(id);
+}
+
+export function getFormats(): FormatDefinition[] {
+  return [...formats.values()];
+}
+
+registerFormat({ id: 'url', label: 'URL', render: (card) => card.imageUrl });
+registerFormat({ id: 'markdown', label: 'Markdown', render: renderMarkdown });
+registerFormat({ id: 'rst', label: 'rSt', render: renderRst });
+registerFormat({ id: 'asciidoc', label: 'AsciiDoc', render: renderAsciidoc });
+registerFormat({ id: 'html', label: 'HTML', render: renderHtml });
+registerFormat({ id: 'mdx', label: 'MDX / JSX', render: renderMdx });
+registerFormat({ id: 'bbcode', label: 'BBCode', render: renderBbcode });
+registerFormat({ id: 'textile', label: 'Textile', render: renderTextile });
+registerFormat({ id: 'org', label: 'Org-mode', render: renderOrg });
+registerFormat({ id: 'mediawiki', label: 'MediaWiki', render: renderMediaWiki });
+registerFormat({ id: 'markdown-card', label: 'Markdown Card', render: renderMarkdownCard });
+registerFormat({ id: 'html-card', label: 'HTML Card', render: renderHtmlCard });
+registerFormat({ id: 'meta', label: 'Open Graph Meta Tags', render: renderMetaTags });
+
+/** Renders `card` in every registered format. */
+export function renderSnippets(card: SnippetCard, options: SnippetOptions = {}): CodeData {
+  return Object.fromEntries(getFormats().map((format) => [format.id, format.render(card, options)]));
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_HISTORY,
+  addHistoryEntry,
+  exportHistory,
+  filterHistory,
+  historyOwners,
+  mergeHistory,
+  parseHistory,
+  removeHistoryEntry,
+  togglePinned,
+  type HistoryEntry,
+} from './history';
+import type { FormData } from '../types';
+
+const card = (data: FormData) => ({
+  data,
+  githubUrl: `https://github.com/${data.user}/${data.repo}`,
+  imageUrl: `https://opengraph.githubassets.com/hash/${data.user}/${data.repo}`,
+});
+
+const REPO = card({ type: 'repository', user: 'octocat', repo: 'Hello-World' });
+const ISSUE = card({ type: 'issue', user: 'octocat', repo: 'Hello-World', num: 1 });
+const OTHER = card({ type: 'repository', user: 'github', repo: 'docs' });
+
+const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 0, minute));
+
+/** Adds the cards in order, one minute apart. */
+const history = (...cards: ReturnType<typeof card>[]) =>
+  cards.reduce<HistoryEntry[]>((entries, next, index) => addHistoryEntry(entries, next, undefined, at(index)), []);
+
+describe('addHistoryEntry', () => {
+  it('adds new cards to the top', () => {
+    const entries = history(REPO, ISSUE);
+    expect(entries.map((entry) => entry.id)).toEqual(['octocat/Hello-World/issues/1', 'octocat/Hello-World']);
+    expect(entries[0]).toMatchObject({ ...ISSUE, createdAt: at(1).toISOString(), pinned: false });
+  });
+
+  it('moves a card that is already present to the top, keeping its pin', () => {
+    const pinned = togglePinned(history(REPO, ISSUE), 'octocat/Hello-World');
+    const entries = addHistoryEntry(pinned, REPO, undefined, at(5));
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ id: 'octocat/Hello-World', pinned: true, createdAt: at(5).toISOString() });
+  });
+
+  it(`keeps ${MAX_HISTORY} unpinned entries, dropping the oldest, plus every pinned one`, () => {
+    let entries = togglePinned(history(REPO), 'octocat/Hello-World');
+    for (let num = 1; num <= MAX_HISTORY + 1; num++) {
+      entries = addHistoryEntry(entries, card({ ...ISSUE.data, num }), undefined, at(num));
+    }
+
+    expect(entries).toHaveLength(MAX_HISTORY + 1);
+    expect(entries.at(-1)?.id).toBe('octocat/Hello-World');
+    expect(entries.map((entry) => entry.id)).not.toContain('octocat/Hello-World/issues/1');
+    expect(entries[0].id).toBe(`octocat/Hello-World/issues/${MAX_HISTORY + 1}`);
+  });
+});
+
+describe('togglePinned and removeHistoryEntry', () => {
+  it('change only the given entry', () => {
+    const entries = history(REPO, ISSUE);
+    expect(togglePinned(entries, 'octocat/Hello-World').map((entry) => entry.pinned)).toEqual([false, true]);
+    expect(removeHistoryEntry(entries, 'octocat/Hello-World').map((entry) => entry.id)).toEqual([
+      'octocat/Hello-World/issues/1',
+    ]);
+  });
+});
+
+describe('filterHistory', () => {
+  const entries = togglePinned(history(REPO, ISSUE, OTHER), 'octocat/Hello-World');
+  const ids = (filtered: HistoryEntry[]) => filtered.map((entry) => entry.id);
+
+  it('puts pinned entries first, newest first otherwise', () => {
+    expect(ids(filterHistory(entries, {}))).toEqual(['octocat/Hello-World', 'github/docs', 'octocat/Hello-World/issues/1']);
+  });
+
+  it('filters by query, type, owner and pin', () => {
+    expect(ids(filterHistory(entries, { query: ' ISSUES ' }))).toEqual(['octocat/Hello-World/issues/1']);
+    expect(ids(filterHistory(entries, { type: 'repository' }))).toEqual(['octocat/Hello-World', 'github/docs']);
+    expect(ids(filterHistory(entries, { owner: 'GitHub' }))).toEqual(['github/docs']);
+    expect(ids(filterHistory(entries, { pinnedOnly: true }))).toEqual(['octocat/Hello-World']);
+    expect(ids(filterHistory(entries, { owner: 'octocat', type: 'issue', query: 'hello' }))).toEqual([
+      'octocat/Hello-World/issues/1',
+    ]);
+  });
+
+  it('lists the owners once each, sorted', () => {
+    expect(historyOwners(entries)).toEqual(['github', 'octocat']);
+  });
+});
+
+describe('mergeHistory', () => {
+  it('keeps the newer entry for cards in both, pinned if either was', () => {
+    const current = togglePinned(history(REPO), 'octocat/Hello-World');
+    const imported = [addHistoryEntry([], { ...REPO, imageUrl: 'https://example.com/new.png' }, undefined, at(9))[0]];
+
+    expect(mergeHistory(current, imported)).toEqual([{ ...imported[0], pinned: true }]);
+    expect(mergeHistory(imported, current)).toEqual([{ ...imported[0], pinned: true }]);
+  });
+
+  it('sorts the combined entries newest first and trims them', () => {
+    const merged = mergeHistory(history(REPO, ISSUE), [addHistoryEntry([], OTHER, undefined, new Date(Date.UTC(2024, 0, 1, 0, 0, 30)))[0]]);
+    expect(merged.map((entry) => entry.id)).toEqual(['octocat/Hello-World/issues/1', 'github/docs', 'octocat/Hello-World']);
+
+    const many = Array.from({ length: MAX_HISTORY + 5 }, (_, num) =>
+      addHistoryEntry([], card({ ...ISSUE.data, num: num + 1 }), undefined, at(num))[0],
+    );
+    expect(mergeHistory([], many)).toHaveLength(MAX_HISTORY);
+  });
+});
+
+describe('parseHistory', () => {
+  it('reads exported files and bare arrays, defaulting pins to false', () => {
+    const entries = togglePinned(history(REPO, ISSUE), 'octocat/Hello-World');
+    expect(parseHistory(exportHistory(entries))).toEqual({ ok: true, entries });
+
+    const unpinned = JSON.stringify([{ ...entries[0], pinned: undefined }]);
+    expect(parseHistory(unpinned)).toEqual({ ok: true, entries: [{ ...entries[0], pinned: false }] });
+  });
+
+  it.each([
+    ['not json', 'File is not valid JSON'],
+    ['{"version":1}', 'File does not contain a list of cards'],
+    ['null', 'File does not contain a list of cards'],
+    [JSON.stringify([{ ...REPO, id: 'octocat/Hello-World', createdAt: 'x' }, { id: 1 }]), 'Entry 2 is not a valid card'],
+    [JSON.stringify([{ ...REPO, id: 'a', createdAt: 'x', data: { ...REPO.data, type: 'wiki' } }]), 'Entry 1 is not a valid card'],
+    [
+      JSON.stringify([{ ...REPO, id: 'a', createdAt: 'x', host: { baseUrl: 'javascript:alert(1)', image: { kind: 'svg', theme: 'dark' } } }]),
+      'Entry 1 is not a valid card',
+    ],
+  ])('rejects %s', (json, error) => {
+    expect(parseHistory(json)).toEqual({ ok: false, error });
+  });
+});
@@ -0,0 +1,150 @@
+import { cardPath, type CardUrls } from './cards';
+import { isCardType } from './cardTypes';
+import { GITHUB_HOST, hostBaseUrl, hostName, validateHostProfile, type HostProfile } from './hosts';
+import type { CardType, FormData } from '../types';
+
+export interface HistoryEntry extends CardUrls {
+  /**
+   * The card's path, e.g. `octocat/Hello-World/issues/1`, prefixed with the
+   * host for cards not on github.com, so each card appears once.
+   */
+  id: string;
+  data: FormData;
+  /** Missing from entries saved before hosts were recorded, which are taken to be github.com. */
+  host?: HostProfile;
+  /** ISO timestamp of the last time the card was generated. */
+  createdAt: string;
+  pinned: boolean;
+}
+
+export interface HistoryFilter {
+  query?: string;
+  type?: CardType;
+  owner?: string;
+  pinnedOnly?: boolean;
+}
+
+export type ImportResult = { ok: true; entries: HistoryEntry[] } | { ok: false; error: string };
+
+/** Unpinned entries beyond this are dropped, oldest first. */
+export const MAX_HISTORY = 100;
+const EXPORT_VERSION = 1;
+
+const sortEntries = (entries: HistoryEntry[]) =>
+  [...entries].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+const trim = (entries: HistoryEntry[]) => {
+  let unpinned = 0;
+  return entries.filter((entry) => entry.pinned || ++unpinned <= MAX_HISTORY);
+};
+
+/** e.g. `octocat/Hello-World/issues/1` on github.com, `github.example.com/octocat/Hello-World/issues/1` elsewhere. */
+export function historyId(data: FormData, host: HostProfile = GITHUB_HOST): string {
+  const path = cardPath(data);
+  return hostName(host) === 'github.com' ? path : `${hostBaseUrl(host).replace(/^[a-z]+:\/\//i, '')}/${path}`;
+}
+
+/** Adds a card to the top of the history, or moves it there if it's already present. */
+export function addHistoryEntry(
+  entries: HistoryEntry[],
+  card: CardUrls & { data: FormData },
+  host: HostProfile = GITHUB_HOST,
+  now: Date = new Date(),
+): HistoryEntry[] {
+  const id = historyId(card.data, host);
+  const existing = entries.find((entry) => entry.id === id);
+  const entry: HistoryEntry = {
+    id,
+    data: card.data,
+    host,
+    imageUrl: card.imageUrl,
+    githubUrl: card.githubUrl,
+    createdAt: now.toISOString(),
+    pinned: existing?.pinned ?? false,
+  };
+  return trim([entry, ...entries.filter((other) => other.id !== id)]);
+}
+
+export function togglePinned(entries: HistoryEntry[], id: string): HistoryEntry[] {
+  return entries.map((entry) => (entry.id === id ? { ...entry, pinned: !entry.pinned } : entry));
+}
+
+export function removeHistoryEntry(entries: HistoryEntry[], id: string): HistoryEntry[] {
+  return entries.filter((entry) => entry.id !== id);
+}
+
+/** Pinned entries come first; otherwise the newest entries lead. */
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+  const query = filter.query?.trim().toLowerCase();
+  return entries
+    .filter((entry) => !filter.type || entry.data.type === filter.type)
+    .filter((entry) => !filter.owner || entry.data.user.toLowerCase() === filter.owner.toLowerCase())
+    .filter((entry) => !filter.pinnedOnly || entry.pinned)
+    .filter((entry) => !query || entry.id.toLowerCase().includes(query))
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned));
+}
+
+export function historyOwners(entries: HistoryEntry[]): string[] {
+  return [...new Set(entries.map((entry) => entry.data.user))].sort((a, b) => a.localeCompare(b));
+}
+
+export function exportHistory(entries: HistoryEntry[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, entries }, null, 2);
+}
+
+const isHost = (value: HostProfile | undefined) =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof value.baseUrl === 'string' &&
+  typeof value.image === 'object' &&
+  value.image !== null &&
+  !validateHostProfile(value);
+
+const isEntry = (value: unknown): value is HistoryEntry => {
+  const entry = value as HistoryEntry;
+  return (
+    typeof entry === 'object' &&
+    entry !== null &&
+    typeof entry.id === 'string' &&
+    typeof entry.imageUrl === 'string' &&
+    typeof entry.githubUrl === 'string' &&
+    typeof entry.createdAt === 'string' &&
+    typeof entry.data?.user === 'string' &&
+    typeof entry.data?.repo === 'string' &&
+    isCardType(entry.data?.type) &&
+    (entry.host === undefined || isHost(entry.host))
+  );
+};
+
+/** Reads a file written by `exportHistory`. A bare array of entries is accepted too. */
+export function parseHistory(json: string): ImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { ok: false, error: 'File is not valid JSON' };
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : (parsed as { entries?: unknown })?.entries;
+  if (!Array.isArray(entries)) return { ok: false, error: 'File does not contain a list of cards' };
+
+  const invalid = entries.findIndex((entry) => !isEntry(entry));
+  if (invalid !== -1) return { ok: false, error: `Entry ${invalid + 1} is not a valid card` };
+
+  return { ok: true, entries: entries.map((entry: HistoryEntry) => ({ ...entry, pinned: Boolean(entry.pinned) })) };
+}
+
+/** Combines two histories; for cards in both, the newer entry wins and stays pinned if either was. */
+export function mergeHistory(current: HistoryEntry[], imported: HistoryEntry[]): HistoryEntry[] {
+  const merged = new Map<string, HistoryEntry>();
+  for (const entry of [...current, ...imported]) {
+    const existing = merged.get(entry.id);
+    if (!existing) {
+      merged.set(entry.id, entry);
+      continue;
+    }
+    const newer = entry.createdAt > existing.createdAt ? entry : existing;
+    merged.set(entry.id, { ...newer, pinned: entry.pinned || existing.pinned });
+  }
+  return trim(sortEntries([...merged.values()]));
+}
@@ -0,0 +1,144 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { buildCardUrls, generateCard } from './cards';
+import { parseCardState, serializeCardState } from './deepLink';
+import { createImageFetcher } from './exportImage';
+import { addHistoryEntry, historyId, parseHistory, exportHistory } from './history';
+import { GITHUB_HOST, hostApiUrl, hostForPage, hostName, validateHostProfile, type HostProfile } from './hosts';
+import { parseGitHubUrl } from './parseGitHubUrl';
+import { startTestServer, type TestServer } from '../../test/testServer';
+
+// A stand-in for a GitHub Enterprise Server instance that also serves card images under /og.
+let server: TestServer;
+let host: HostProfile;
+
+beforeAll(async () => {
+  server = await startTestServer((req, res) => {
+    if (req.url?.startsWith('/og/')) {
+      res.writeHead(200, { 'content-type': 'image/png' }).end(`card for ${req.url.slice('/og/'.length)}`);
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  host = { baseUrl: server.url, image: { kind: 'opengraph', endpoint: `${server.url}/og/{path}` } };
+});
+
+afterAll(() => server.close());
+
+describe('host profiles', () => {
+  it('accepts a localhost profile', () => {
+    expect(validateHostProfile(host)).toBeNull();
+    expect(hostName(host)).toBe('localhost');
+    expect(hostApiUrl(host)).toBe(`${server.url}/api/v3`);
+  });
+
+  it('rejects profiles that are not http(s)', () => {
+    expect(validateHostProfile({ ...host, baseUrl: 'ftp://localhost' })).toMatch(/Host URL/);
+    expect(validateHostProfile({ ...host, image: { kind: 'opengraph', endpoint: 'not a url' } })).toMatch(/endpoint/);
+  });
+});
+
+describe('hostForPage', () => {
+  it('keeps the saved host for its own pages and github.com for github.com pages', () => {
+    expect(hostForPage(`${server.url}/octocat/Hello-World`, host)).toBe(host);
+    expect(hostForPage('https://gist.github.com/octocat/6cad326836d38bd3a7ae', GITHUB_HOST)).toBe(GITHUB_HOST);
+    expect(hostForPage('https://github.com/octocat/Hello-World', host)).toBe(GITHUB_HOST);
+    expect(hostForPage('', host)).toBe(host);
+  });
+
+  it("uses another instance's origin, with SVG cards", () => {
+    const pageHost = hostForPage(`${server.url}/octocat/Hello-World/pull/2`, GITHUB_HOST);
+    expect(pageHost).toEqual({ baseUrl: server.url, image: { kind: 'svg', theme: 'dark' } });
+    expect(parseGitHubUrl(`${server.url}/octocat/Hello-World/pull/2`, pageHost)).toMatchObject({ ok: true });
+  });
+});
+
+describe('parseGitHubUrl on a custom host', () => {
+  it('reads links on the host, with its port', () => {
+    expect(parseGitHubUrl(`${server.url}/octocat/Hello-World/issues/1`, host)).toEqual({
+      ok: true,
+      data: { type: 'issue', user: 'octocat', repo: 'Hello-World', num: 1 },
+    });
+    expect(parseGitHubUrl(`${server.url}/gist/octocat/6cad326836d38bd3a7ae`, host)).toEqual({
+      ok: true,
+      data: { type: 'gist', user: 'octocat', repo: '', ref: '6cad326836d38bd3a7ae' },
+    });
+  });
+
+  it('still reads short forms, but not the host name as an owner', () => {
+    expect(parseGitHubUrl('octocat/Hello-World#1', host)).toMatchObject({ ok: true, data: { type: 'issue' } });
+    expect(parseGitHubUrl('localhost/octocat', host)).toMatchObject({ ok: true, data: { type: 'user', user: 'octocat' } });
+  });
+
+  it('rejects github.com links', () => {
+    expect(parseGitHubUrl('https://github.com/octocat/Hello-World', host)).toEqual({
+      ok: false,
+      error: 'Only localhost URLs are supported, got github.com; change the host to use another instance',
+    });
+  });
+});
+
+describe('card URLs on a custom host', () => {
+  it('links to the host and loads images from its endpoint', async () => {
+    const urls = buildCardUrls({ type: 'pull-request', user: 'octocat', repo: 'Hello-World', num: 2 }, host);
+    expect(urls).toEqual({
+      githubUrl: `${server.url}/octocat/Hello-World/pull/2`,
+      imageUrl: `${server.url}/og/octocat/Hello-World/pull/2`,
+    });
+
+    const image = await createImageFetcher()(urls.imageUrl);
+    expect(await image.text()).toBe('card for octocat/Hello-World/pull/2');
+  });
+
+  it('uses the host in every snippet', () => {
+    const result = generateCard({ type: 'repository', user: 'octocat', repo: 'Hello-World' }, {}, host);
+    if (!result.ok) throw new Error(result.errors[0].message);
+    for (const snippet of Object.values(result.code)) {
+      expect(snippet).not.toContain('github.com');
+      expect(snippet).toContain(`${server.url}/`);
+    }
+  });
+});
+
+describe('deep links on a custom host', () => {
+  const data = { type: 'issue' as const, user: 'octocat', repo: 'Hello-World', num: 1, tag: '', ref: '', path: '' };
+
+  it('round-trips the host and its image source', () => {
+    const search = serializeCardState({ data, format: 'markdown', host });
+    expect(new URLSearchParams(search).get('host')).toBe(server.url);
+    expect(parseCardState(search)).toEqual({ data, format: 'markdown', host });
+
+    const svgHost: HostProfile = { baseUrl: server.url, image: { kind: 'svg', theme: 'light' } };
+    expect(parseCardState(serializeCardState({ data, host: svgHost }))?.host).toEqual(svgHost);
+  });
+
+  it('leaves github.com out of the link', () => {
+    const search = serializeCardState({ data, host: GITHUB_HOST });
+    expect(search).not.toContain('host=');
+    expect(parseCardState(search)?.host).toEqual(GITHUB_HOST);
+  });
+
+  it('rejects links with an invalid host', () => {
+    expect(parseCardState(`${serializeCardState({ data })}&host=javascript:alert(1)`)).toBeNull();
+    expect(parseCardState(`${serializeCardState({ data })}&host=${server.url}&image=svg:sepia`)).toBeNull();
+  });
+});
+
+describe('history on a custom host', () => {
+  const card = (baseUrl: string) => ({
+    data: { type: 'repository' as const, user: 'o', repo: 'r' },
+    githubUrl: `${baseUrl}/o/r`,
+    imageUrl: `${baseUrl}/og/o/r`,
+  });
+
+  it('keeps the same path on different hosts apart', () => {
+    const entries = addHistoryEntry(addHistoryEntry([], card('https://github.com')), card(server.url), host);
+    expect(entries.map((entry) => entry.id)).toEqual([historyId(card(server.url).data, host), 'o/r']);
+    expect(entries[0].id).toBe(`localhost:${new URL(server.url).port}/o/r`);
+    expect(entries.map((entry) => entry.host)).toEqual([host, GITHUB_HOST]);
+  });
+
+  it('exports and imports the host', () => {
+    const entries = addHistoryEntry([], card(server.url), host);
+    expect(parseHistory(exportHistory(entries))).toEqual({ ok: true, entries });
+  });
+});
@@ -0,0 +1,92 @@
+import { CARD_THEMES, type CardTheme } from './svgCard';
+
+/** Where card images come from: an OpenGraph-style endpoint, or an SVG rendered locally. */
+export type ImageSource =
+  | { kind: 'opengraph'; endpoint: string }
+  | { kind: 'svg'; theme: CardTheme };
+
+export interface HostProfile {
+  /** Web URL of the GitHub instance, e.g. `https://github.example.com`. */
+  baseUrl: string;
+  image: ImageSource;
+}
+
+export const GITHUB_URL = 'https://github.com';
+
+/**
+ * `{path}` is the card's path, e.g. `octocat/Hello-World/issues/1`; `{owner}`,
+ * `{repo}`, `{type}` and `{hash}` are also available. Endpoints without any
+ * placeholder get `/{path}` appended.
+ */
+export const OPENGRAPH_ENDPOINT = 'https://opengraph.githubassets.com/{hash}/{path}';
+
+export const GITHUB_HOST: HostProfile = {
+  baseUrl: GITHUB_URL,
+  image: { kind: 'opengraph', endpoint: OPENGRAPH_ENDPOINT },
+};
+
+const trimSlashes = (value: string) => value.replace(/\/+$/, '');
+
+export function hostBaseUrl(host: HostProfile): string {
+  return trimSlashes(host.baseUrl);
+}
+
+/** The host name without `www.`, e.g. `github.com`. */
+export function hostName(host: HostProfile): string {
+  try {
+    return new URL(host.baseUrl).hostname.replace(/^www\./, '');
+  } catch {
+    return host.baseUrl;
+  }
+}
+
+/** The REST API root: `api.github.com` for github.com, `/api/v3` on GitHub Enterprise Server. */
+export function hostApiUrl(host: HostProfile): string {
+  return hostName(host) === 'github.com' ? 'https://api.github.com' : `${hostBaseUrl(host)}/api/v3`;
+}
+
+export function expandImageEndpoint(endpoint: string, values: Record<string, string>): string {
+  const template = /\{\w+\}/.test(endpoint) ? endpoint : `${trimSlashes(endpoint)}/{path}`;
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/** Returns an error message, or `null` if the profile is usable. */
+export function validateHostProfile(host: HostProfile): string | null {
+  if (!isHttpUrl(host.baseUrl)) return 'Host URL must be an http(s) URL, e.g. https://github.example.com';
+  if (host.image.kind === 'opengraph' && !isHttpUrl(expandImageEndpoint(host.image.endpoint, {}))) {
+    return 'Image endpoint must be an http(s) URL';
+  }
+  if (host.image.kind === 'svg' && !CARD_THEMES.includes(host.image.theme)) {
+    return `Unknown card theme: ${host.image.theme}`;
+  }
+  return null;
+}
+
+const pageHost = (url: string) => {
+  try {
+    const { protocol, host } = new URL(url);
+    return ['http:', 'https:'].includes(protocol) ? host.replace(/^(?:www|gist)\./, '') : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The host a page's card belongs on: `saved` when the page is on it, github.com for
+ * github.com pages, and otherwise the page's own origin, e.g. a GitHub Enterprise
+ * Server tab. Such hosts render SVG cards, since their image endpoint is unknown.
+ */
+export function hostForPage(pageUrl: string, saved: HostProfile): HostProfile {
+  const page = pageHost(pageUrl);
+  if (!page || page === pageHost(saved.baseUrl)) return saved;
+  if (page === 'github.com') return GITHUB_HOST;
+  return { baseUrl: new URL(pageUrl).origin, image: { kind: 'svg', theme: 'dark' } };
+}
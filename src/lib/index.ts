@@ -0,0 +1,16 @@
+// `canvasEncoder`, `clipboard` and `download` need a browser, so they're imported directly
+// rather than re-exported here, where the CLI and the HTTP handler would load them.
+export type { CardType, CodeData, FormData, OutputFormat } from '../types';
+export * from './batch';
+export * from './bookmarklet';
+export * from './cards';
+export * from './cardTypes';
+export * from './deepLink';
+export * from './exportImage';
+export * from './formats';
+export * from './history';
+export * from './hosts';
+export * from './metadata';
+export * from './parseGitHubUrl';
+export * from './snippets';
+export * from './svgCard';
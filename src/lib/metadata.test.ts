@@ -0,0 +1,263 @@
+import type { IncomingHttpHeaders, OutgoingHttpHeaders } from 'node:http';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createGitHubApiProvider, createMemoryCache, type GitHubApiProviderOptions } from './metadata';
+import { startTestServer, type TestServer } from '../../test/testServer';
+import type { FormData } from '../types';
+
+interface MockResponse {
+  status?: number;
+  headers?: OutgoingHttpHeaders;
+  body?: unknown;
+}
+
+// A local stand-in for the GitHub REST API: each test sets the responses by path and reads back the requests.
+let api: TestServer;
+let routes: Record<string, MockResponse>;
+let requests: { url: string; headers: IncomingHttpHeaders }[];
+
+beforeAll(async () => {
+  api = await startTestServer((req, res) => {
+    requests.push({ url: req.url ?? '', headers: req.headers });
+    const route = routes[req.url ?? ''] ?? { status: 404, body: { message: 'Not Found' } };
+    res.writeHead(route.status ?? 200, { 'content-type': 'application/json', ...route.headers });
+    res.end(JSON.stringify(route.body ?? {}));
+  });
+});
+
+afterAll(() => api.close());
+
+beforeEach(() => {
+  routes = {};
+  requests = [];
+});
+
+const REPO: FormData = { type: 'repository', user: 'octocat', repo: 'Hello-World' };
+const ISSUE: FormData = { type: 'issue', user: 'octocat', repo: 'Hello-World', num: 1 };
+
+const REPO_BODY = {
+  full_name: 'octocat/Hello-World',
+  description: 'My first repository',
+  stargazers_count: 80,
+  forks_count: 9,
+  language: 'TypeScript',
+  topics: ['demo'],
+  owner: { login: 'octocat' },
+  created_at: '2011-01-26T19:01:12Z',
+  pushed_at: '2024-01-01T00:00:00Z',
+  updated_at: '2023-01-01T00:00:00Z',
+};
+
+const ISSUE_BODY = {
+  title: 'Found a bug',
+  state: 'open',
+  labels: [{ name: 'bug' }, 'triage'],
+  user: { login: 'hubot' },
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-02T00:00:00Z',
+};
+
+const provider = (options: GitHubApiProviderOptions = {}) => createGitHubApiProvider({ apiUrl: api.url, ...options });
+
+describe('createGitHubApiProvider', () => {
+  it('maps repositories and issues', async () => {
+    routes['/repos/octocat/Hello-World'] = { body: REPO_BODY };
+    routes['/repos/octocat/Hello-World/issues/1'] = { body: ISSUE_BODY };
+    const metadata = provider();
+
+    expect(await metadata.getMetadata(REPO)).toEqual({
+      ok: true,
+      metadata: {
+        title: 'octocat/Hello-World',
+        description: 'My first repository',
+        labels: ['demo'],
+        stars: 80,
+        forks: 9,
+        language: 'TypeScript',
+        author: 'octocat',
+        createdAt: '2011-01-26T19:01:12Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+      },
+    });
+    expect(await metadata.getMetadata(ISSUE)).toEqual({
+      ok: true,
+      metadata: {
+        title: 'Found a bug',
+        state: 'open',
+        labels: ['bug', 'triage'],
+        author: 'hubot',
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-02T00:00:00Z',
+      },
+    });
+  });
+
+  it('reads merged and draft pull requests and releases', async () => {
+    routes['/repos/octocat/Hello-World/pulls/2'] = { body: { ...ISSUE_BODY, state: 'closed', merged_at: '2024-01-03T00:00:00Z' } };
+    routes['/repos/octocat/Hello-World/pulls/3'] = { body: { ...ISSUE_BODY, draft: true, merged_at: null } };
+    routes['/repos/octocat/Hello-World/releases/tags/v1.0.0'] = {
+      body: { name: null, tag_name: 'v1.0.0', draft: false, prerelease: true, author: null, created_at: 'x', published_at: null },
+    };
+    const metadata = provider();
+
+    expect(await metadata.getMetadata({ ...ISSUE, type: 'pull-request', num: 2 })).toMatchObject({ metadata: { state: 'merged' } });
+    expect(await metadata.getMetadata({ ...ISSUE, type: 'pull-request', num: 3 })).toMatchObject({ metadata: { state: 'draft' } });
+    expect(await metadata.getMetadata({ ...REPO, type: 'release', tag: 'v1.0.0' })).toMatchObject({
+      metadata: { title: 'v1.0.0', state: 'prerelease' },
+    });
+  });
+
+  it('caches successful responses until they expire', async () => {
+    routes['/repos/octocat/Hello-World'] = { body: REPO_BODY };
+    let now = 0;
+    const metadata = provider({ now: () => now });
+
+    await metadata.getMetadata(REPO);
+    await metadata.getMetadata(REPO);
+    expect(requests).toHaveLength(1);
+
+    now = 11 * 60 * 1000;
+    await metadata.getMetadata(REPO);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('caches not-found responses', async () => {
+    const metadata = provider();
+    const notFound = { ok: false, error: 'Not found on GitHub; private repositories need a token' };
+
+    expect(await metadata.getMetadata(REPO)).toEqual(notFound);
+    expect(await metadata.getMetadata(REPO)).toEqual(notFound);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('stops calling the API until the rate limit resets', async () => {
+    routes['/repos/octocat/Hello-World'] = {
+      status: 403,
+      headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '120' },
+    };
+    let now = 60 * 1000;
+    const metadata = provider({ now: () => now });
+
+    const limited = await metadata.getMetadata(REPO);
+    expect(limited).toMatchObject({ ok: false, error: expect.stringMatching(/rate limit.*add a token/) });
+    expect(!limited.ok && limited.retryAt).toEqual(new Date(120 * 1000));
+
+    // Other cards are blocked too, without reaching the API.
+    expect(await metadata.getMetadata(ISSUE)).toMatchObject({ ok: false, retryAt: new Date(120 * 1000) });
+    expect(requests).toHaveLength(1);
+
+    routes['/repos/octocat/Hello-World'] = { body: REPO_BODY };
+    now = 121 * 1000;
+    expect(await metadata.getMetadata(REPO)).toMatchObject({ ok: true });
+    expect(requests).toHaveLength(2);
+  });
+
+  it('honors retry-after on secondary rate limits', async () => {
+    routes['/repos/octocat/Hello-World'] = { status: 429, headers: { 'retry-after': '30' } };
+    let now = 0;
+    const metadata = provider({ now: () => now });
+
+    expect(await metadata.getMetadata(REPO)).toMatchObject({ ok: false, retryAt: new Date(30 * 1000) });
+    now = 29 * 1000;
+    await metadata.getMetadata(REPO);
+    expect(requests).toHaveLength(1);
+
+    now = 31 * 1000;
+    await metadata.getMetadata(REPO);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('treats other 403s as failures rather than rate limits', async () => {
+    routes['/repos/octocat/Hello-World'] = { status: 403, headers: { 'x-ratelimit-remaining': '42' } };
+    const metadata = provider();
+
+    expect(await metadata.getMetadata(REPO)).toEqual({ ok: false, error: 'GitHub API request failed with status 403' });
+    await metadata.getMetadata(REPO);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('sends the token and reports when it is rejected', async () => {
+    routes['/repos/octocat/Hello-World'] = { body: REPO_BODY };
+    await provider({ token: 'ghp_secret' }).getMetadata(REPO);
+    await provider().getMetadata(REPO);
+
+    expect(requests.map((request) => request.headers.authorization)).toEqual(['Bearer ghp_secret', undefined]);
+    expect(requests[0].headers.accept).toBe('application/vnd.github+json');
+
+    routes['/repos/octocat/Hello-World'] = { status: 401 };
+    expect(await provider({ token: 'expired' }).getMetadata(REPO)).toEqual({
+      ok: false,
+      error: 'GitHub API rejected the token',
+    });
+  });
+
+  it('reports unexpected bodies instead of throwing', async () => {
+    routes['/repos/octocat/Hello-World'] = { body: {} };
+    routes['/repos/octocat/Hello-World/issues/1'] = { body: {} };
+    routes['/repos/octocat/Hello-World/releases/tags/v1'] = { body: [] };
+    const metadata = provider();
+    const unexpected = { ok: false, error: 'GitHub API returned an unexpected response' };
+
+    expect(await metadata.getMetadata(REPO)).toEqual(unexpected);
+    expect(await metadata.getMetadata(ISSUE)).toEqual(unexpected);
+    expect(await metadata.getMetadata({ ...REPO, type: 'release', tag: 'v1' })).toEqual(unexpected);
+  });
+
+  it('leaves out fields of the wrong type', async () => {
+    routes['/repos/octocat/Hello-World'] = {
+      body: { ...REPO_BODY, stargazers_count: '80', topics: 'demo', owner: null, language: 42 },
+    };
+    routes['/repos/octocat/Hello-World/issues/1'] = { body: { ...ISSUE_BODY, state: 'locked', labels: [{}, 7, 'bug'], user: 'hubot' } };
+    const metadata = provider();
+
+    expect(await metadata.getMetadata(REPO)).toEqual({
+      ok: true,
+      metadata: {
+        title: 'octocat/Hello-World',
+        description: 'My first repository',
+        labels: [],
+        forks: 9,
+        createdAt: '2011-01-26T19:01:12Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+      },
+    });
+    expect(await metadata.getMetadata(ISSUE)).toEqual({
+      ok: true,
+      metadata: { title: 'Found a bug', labels: ['bug'], createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-02T00:00:00Z' },
+    });
+  });
+
+  it('reports network failures and unsupported card types', async () => {
+    const offline = createGitHubApiProvider({ apiUrl: 'http://localhost:1' });
+    expect(await offline.getMetadata(REPO)).toMatchObject({ ok: false, error: expect.stringMatching(/^GitHub API request failed/) });
+    expect(await provider().getMetadata({ ...REPO, type: 'user' })).toMatchObject({ ok: false });
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe('createMemoryCache', () => {
+  const result = { ok: false as const, error: 'Not found on GitHub' };
+
+  it('drops the least recently used entries beyond its size', () => {
+    const cache = createMemoryCache(1000, () => 0, 2);
+    cache.set('a', result);
+    cache.set('b', result);
+    cache.get('a');
+    cache.set('c', result);
+
+    expect(cache.get('a')).toBe(result);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe(result);
+  });
+
+  it('prunes expired entries when adding new ones', () => {
+    let now = 0;
+    const cache = createMemoryCache(1000, () => now, 10);
+    cache.set('a', result);
+    now = 2000;
+    cache.set('b', result);
+    now = 0;
+
+    // Still within its TTL at time 0, so only pruning can have removed it.
+    expect(cache.get('a')).toBeUndefined();
+  });
+});
@@ -0,0 +1,255 @@
+import { cardPath } from './cards';
+import { GITHUB_HOST, hostApiUrl, type HostProfile } from './hosts';
+import type { CardType, FormData } from '../types';
+
+export type ItemState = 'open' | 'closed' | 'merged' | 'draft' | 'published' | 'prerelease';
+
+/** What the GitHub API tells us about a card's target, beyond what its URL does. */
+export interface CardMetadata {
+  /** Issue, pull request or release title; the full name for repositories. */
+  title: string;
+  description?: string;
+  state?: ItemState;
+  /** Issue and pull request labels, or repository topics. */
+  labels: string[];
+  stars?: number;
+  forks?: number;
+  language?: string;
+  author?: string;
+  /** ISO timestamps. */
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type MetadataResult =
+  | { ok: true; metadata: CardMetadata }
+  | { ok: false; error: string; retryAt?: Date };
+
+/** A source of card metadata. Swap it out to read from a mock API, a proxy or a fixture. */
+export interface MetadataProvider {
+  getMetadata(data: FormData): Promise<MetadataResult>;
+}
+
+export interface MetadataCache {
+  get(key: string): MetadataResult | undefined;
+  set(key: string, result: MetadataResult): void;
+}
+
+/** Responses are kept this long unless the cache says otherwise. */
+export const METADATA_TTL = 10 * 60 * 1000;
+
+/** Entries kept by the memory cache before the least recently used are dropped. */
+export const METADATA_CACHE_SIZE = 500;
+
+export function createMemoryCache(
+  ttl = METADATA_TTL,
+  now: () => number = Date.now,
+  maxEntries = METADATA_CACHE_SIZE,
+): MetadataCache {
+  // A Map iterates in insertion order, so re-inserting on use keeps the least recently used first.
+  const entries = new Map<string, { result: MetadataResult; expiresAt: number }>();
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= now()) return undefined;
+      entries.set(key, entry);
+      return entry.result;
+    },
+    set(key, result) {
+      entries.delete(key);
+      entries.set(key, { result, expiresAt: now() + ttl });
+      for (const [oldest, entry] of entries) {
+        if (entries.size <= maxEntries && entry.expiresAt > now()) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
+
+export interface GitHubApiProviderOptions {
+  /** Defaults to the host's REST API, e.g. `https://api.github.com`. */
+  apiUrl?: string;
+  host?: HostProfile;
+  /** A personal access token; raises the rate limit and gives access to private repositories. */
+  token?: string;
+  fetch?: typeof fetch;
+  cache?: MetadataCache;
+  now?: () => number;
+}
+
+// Responses are read field by field, since a proxy or an older GitHub Enterprise Server may
+// answer with a different shape. Mappers return `undefined` when the body isn't the expected object.
+type ApiObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is ApiObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+const count = (value: unknown) => (typeof value === 'number' ? value : undefined);
+const login = (user: unknown) => (isObject(user) ? text(user.login) : undefined);
+const strings = (values: unknown): string[] =>
+  Array.isArray(values) ? values.filter((value): value is string => typeof value === 'string') : [];
+
+/** Labels are either names or `{ name }` objects. */
+const labelNames = (labels: unknown): string[] =>
+  Array.isArray(labels)
+    ? strings(labels.map((label) => (isObject(label) ? label.name : label))).filter(Boolean)
+    : [];
+
+const fromRepository = (repo: unknown): CardMetadata | undefined => {
+  if (!isObject(repo) || typeof repo.full_name !== 'string') return undefined;
+  return {
+    title: repo.full_name,
+    description: text(repo.description),
+    labels: strings(repo.topics),
+    stars: count(repo.stargazers_count),
+    forks: count(repo.forks_count),
+    language: text(repo.language),
+    author: login(repo.owner),
+    createdAt: text(repo.created_at),
+    updatedAt: text(repo.pushed_at) ?? text(repo.updated_at),
+  };
+};
+
+const fromIssue = (issue: unknown): CardMetadata | undefined => {
+  if (!isObject(issue) || typeof issue.title !== 'string') return undefined;
+  return {
+    title: issue.title,
+    state: issue.state === 'open' || issue.state === 'closed' ? issue.state : undefined,
+    labels: labelNames(issue.labels),
+    author: login(issue.user),
+    createdAt: text(issue.created_at),
+    updatedAt: text(issue.updated_at),
+  };
+};
+
+const fromPullRequest = (pull: unknown): CardMetadata | undefined => {
+  const metadata = fromIssue(pull);
+  if (!metadata || !isObject(pull)) return undefined;
+  if (pull.merged_at) return { ...metadata, state: 'merged' };
+  return pull.draft === true && metadata.state === 'open' ? { ...metadata, state: 'draft' } : metadata;
+};
+
+const fromRelease = (release: unknown): CardMetadata | undefined => {
+  if (!isObject(release) || typeof release.tag_name !== 'string') return undefined;
+  return {
+    title: text(release.name) || release.tag_name,
+    state: release.draft === true ? 'draft' : release.prerelease === true ? 'prerelease' : 'published',
+    labels: [],
+    author: login(release.author),
+    createdAt: text(release.created_at),
+    updatedAt: text(release.published_at) ?? text(release.created_at),
+  };
+};
+
+const segment = encodeURIComponent;
+
+/** The API path and response mapping for each card type that has metadata. */
+const ENDPOINTS: Partial<
+  Record<CardType, { path: (data: FormData) => string; map: (body: unknown) => CardMetadata | undefined }>
+> = {
+  repository: { path: (data) => `repos/${segment(data.user)}/${segment(data.repo)}`, map: fromRepository },
+  issue: { path: (data) => `repos/${segment(data.user)}/${segment(data.repo)}/issues/${data.num}`, map: fromIssue },
+  'pull-request': {
+    path: (data) => `repos/${segment(data.user)}/${segment(data.repo)}/pulls/${data.num}`,
+    map: fromPullRequest,
+  },
+  release: {
+    path: (data) => `repos/${segment(data.user)}/${segment(data.repo)}/releases/tags/${segment(data.tag ?? '')}`,
+    map: fromRelease,
+  },
+};
+
+export const METADATA_TYPES = Object.keys(ENDPOINTS) as CardType[];
+
+/** When a rate-limited response says requests may resume, or `undefined` if it isn't rate limiting. */
+const rateLimitReset = (response: Response, now: number): number | undefined => {
+  if (response.status !== 403 && response.status !== 429) return undefined;
+
+  const retryAfter = Number(response.headers.get('retry-after'));
+  if (retryAfter > 0) return now + retryAfter * 1000;
+  if (response.headers.get('x-ratelimit-remaining') !== '0') return undefined;
+
+  const reset = Number(response.headers.get('x-ratelimit-reset'));
+  return reset > 0 ? reset * 1000 : now + 60 * 1000;
+};
+
+/**
+ * Reads metadata from the GitHub REST API. Successful and not-found responses
+ * are cached; once the rate limit is hit, requests fail without reaching the
+ * API until it resets.
+ */
+export function createGitHubApiProvider(options: GitHubApiProviderOptions = {}): MetadataProvider {
+  const {
+    host = GITHUB_HOST,
+    apiUrl = hostApiUrl(host),
+    token,
+    fetch: fetchImpl = fetch,
+    cache = createMemoryCache(METADATA_TTL, options.now),
+    now = Date.now,
+  } = options;
+  let blockedUntil = 0;
+
+  const rateLimited = (): MetadataResult => ({
+    ok: false,
+    error: `GitHub API rate limit reached; try again after ${new Date(blockedUntil).toLocaleTimeString()}${
+      token ? '' : ', or add a token to raise the limit'
+    }`,
+    retryAt: new Date(blockedUntil),
+  });
+
+  return {
+    async getMetadata(data) {
+      const endpoint = ENDPOINTS[data.type];
+      if (!endpoint) return { ok: false, error: 'Metadata is only available for repositories, issues, pull requests and releases' };
+
+      const key = `${apiUrl} ${cardPath(data)}`;
+      const cached = cache.get(key);
+      if (cached) return cached;
+      if (blockedUntil > now()) return rateLimited();
+
+      let response: Response;
+      try {
+        response = await fetchImpl(`${apiUrl.replace(/\/+$/, '')}/${endpoint.path(data)}`, {
+          headers: {
+            Accept: 'application/vnd.github+json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
+        });
+      } catch (err) {
+        return { ok: false, error: `GitHub API request failed: ${(err as Error).message}` };
+      }
+
+      const reset = rateLimitReset(response, now());
+      if (reset !== undefined) {
+        blockedUntil = reset;
+        return rateLimited();
+      }
+      if (response.status === 401) return { ok: false, error: 'GitHub API rejected the token' };
+      if (response.status === 404) {
+        const result: MetadataResult = {
+          ok: false,
+          error: token ? 'Not found on GitHub' : 'Not found on GitHub; private repositories need a token',
+        };
+        cache.set(key, result);
+        return result;
+      }
+      if (!response.ok) return { ok: false, error: `GitHub API request failed with status ${response.status}` };
+
+      let body: unknown;
+      try {
+        body = await response.json();
+      } catch {
+        return { ok: false, error: 'GitHub API returned invalid JSON' };
+      }
+
+      const metadata = endpoint.map(body);
+      if (!metadata) return { ok: false, error: 'GitHub API returned an unexpected response' };
+
+      const result: MetadataResult = { ok: true, metadata };
+      cache.set(key, result);
+      return result;
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { parseGitHubUrl } from './parseGitHubUrl';
+
+const parsed = (input: string) => {
+  const result = parseGitHubUrl(input);
+  if (!result.ok) throw new Error(result.error);
+  return result.data;
+};
+
+const error = (input: string) => {
+  const result = parseGitHubUrl(input);
+  return result.ok ? undefined : result.error;
+};
+
+describe('parseGitHubUrl', () => {
+  it.each([
+    ['https://github.com/octocat/Hello-World', { type: 'repository', user: 'octocat', repo: 'Hello-World' }],
+    ['github.com/octocat/Hello-World.git', { type: 'repository', user: 'octocat', repo: 'Hello-World' }],
+    ['https://www.github.com/octocat/Hello-World/issues/1', { type: 'issue', user: 'octocat', repo: 'Hello-World', num: 1 }],
+    ['https://github.com/octocat/Hello-World/pull/2/files', { type: 'pull-request', user: 'octocat', repo: 'Hello-World', num: 2 }],
+    ['https://github.com/octocat/Hello-World/discussions/3', { type: 'discussion', user: 'octocat', repo: 'Hello-World', num: 3 }],
+    [
+      'https://github.com/octocat/Hello-World/releases/tag/release/1.x',
+      { type: 'release', user: 'octocat', repo: 'Hello-World', tag: 'release/1.x' },
+    ],
+    ['https://github.com/octocat/Hello-World/commit/7fd1a60', { type: 'commit', user: 'octocat', repo: 'Hello-World', ref: '7fd1a60' }],
+    [
+      'https://github.com/octocat/Hello-World/compare/v1.0.0...main',
+      { type: 'compare', user: 'octocat', repo: 'Hello-World', ref: 'v1.0.0...main' },
+    ],
+    [
+      'https://github.com/octocat/Hello-World/blob/main/docs/a%20b%23c.md',
+      { type: 'file', user: 'octocat', repo: 'Hello-World', ref: 'main', path: 'docs/a b#c.md' },
+    ],
+    ['https://github.com/octocat/Hello-World/milestone/4', { type: 'milestone', user: 'octocat', repo: 'Hello-World', num: 4 }],
+    [
+      'https://github.com/octocat/Hello-World/actions/runs/5834719485',
+      { type: 'workflow-run', user: 'octocat', repo: 'Hello-World', num: 5834719485 },
+    ],
+    ['https://github.com/octocat', { type: 'user', user: 'octocat', repo: '' }],
+    ['https://github.com/orgs/github/repositories', { type: 'organization', user: 'github', repo: '' }],
+    ['https://gist.github.com/octocat/6cad326836d38bd3a7ae', { type: 'gist', user: 'octocat', repo: '', ref: '6cad326836d38bd3a7ae' }],
+  ])('reads %s', (input, data) => {
+    expect(parsed(input)).toEqual(data);
+  });
+
+  it.each([
+    ['octocat/Hello-World', { type: 'repository', user: 'octocat', repo: 'Hello-World' }],
+    ['octocat_acme/Hello-World', { type: 'repository', user: 'octocat_acme', repo: 'Hello-World' }],
+    ['octocat/octocat.github.com', { type: 'repository', user: 'octocat', repo: 'octocat.github.com' }],
+    ['octocat/Hello-World#12', { type: 'issue', user: 'octocat', repo: 'Hello-World', num: 12 }],
+    ['octocat/Hello-World@v1.2.0', { type: 'release', user: 'octocat', repo: 'Hello-World', tag: 'v1.2.0' }],
+  ])('reads the short form %s', (input, data) => {
+    expect(parsed(input)).toEqual(data);
+  });
+
+  it.each([
+    ['https://github.com/settings', '/settings pages are not supported'],
+    ['https://github.com/settings/profile', '/settings pages are not supported'],
+    ['github.com/features/actions', '/features pages are not supported'],
+    ['https://github.com/Marketplace', '/Marketplace pages are not supported'],
+    ['topics/react', '/topics pages are not supported'],
+  ])('rejects the site page %s', (input, message) => {
+    expect(error(input)).toBe(message);
+  });
+
+  it.each([
+    ['', 'Paste a GitHub URL'],
+    ['https://github.com/octocat/Hello-World/wiki', 'Wiki URLs are not supported'],
+    ['https://github.com/octocat/Hello-World/issues/abc', 'URL must include an issue, pull request or discussion number'],
+    ['https://github.com/octocat/Hello-World/releases', 'Release URLs must point to a tag, e.g. /releases/tag/v1.0.0'],
+    ['https://gitlab.com/octocat/Hello-World', expect.stringMatching(/^Only github.com URLs are supported/)],
+    ['octocat/Hello-World#0', 'Issue number must be a positive integer'],
+  ])('explains why %s is not supported', (input, message) => {
+    expect(error(input)).toEqual(message);
+  });
+});
@@ -0,0 +1,189 @@
+import { GITHUB_HOST, hostName, type HostProfile } from './hosts';
+import type { FormData } from '../types';
+
+export type ParseResult =
+  | { ok: true; data: FormData }
+  | { ok: false; error: string };
+
+// Path segments after owner/repo that point at something we can't make a card for.
+const UNSUPPORTED_SECTIONS: Record<string, string> = {
+  commits: 'Commit history',
+  tree: 'Tree',
+  wiki: 'Wiki',
+  actions: 'Actions',
+  projects: 'Project',
+  milestones: 'Milestone list',
+  security: 'Security',
+  pulse: 'Insights',
+  graphs: 'Insights',
+  settings: 'Settings',
+};
+
+// Top-level pages of the site itself, which would otherwise read as a profile or repository.
+const RESERVED_ROUTES = new Set([
+  'about',
+  'account',
+  'apps',
+  'codespaces',
+  'collections',
+  'contact',
+  'copilot',
+  'dashboard',
+  'discussions',
+  'enterprise',
+  'explore',
+  'features',
+  'issues',
+  'join',
+  'login',
+  'logout',
+  'marketplace',
+  'new',
+  'notifications',
+  'organizations',
+  'pricing',
+  'pulls',
+  'search',
+  'security',
+  'sessions',
+  'settings',
+  'signup',
+  'site',
+  'sponsors',
+  'stars',
+  'topics',
+  'trending',
+]);
+
+// Account names can't contain `.`, so `github.com/owner` never reads as a short form.
+const SHORT_FORM = /^([\w-]+)\/([\w.-]+?)(?:\.git)?(?:#(\d+)|@(.+))?$/;
+
+const fail = (error: string): ParseResult => ({ ok: false, error });
+
+const decodeSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+const isReserved = (segment: string | undefined) => segment !== undefined && RESERVED_ROUTES.has(segment.toLowerCase());
+
+const reservedRoute = (segment: string) => fail(`/${segment} pages are not supported`);
+
+const parseNumber = (value: string | undefined): number | undefined => {
+  if (!value || !/^\d+$/.test(value)) return undefined;
+  const num = Number(value);
+  return num > 0 ? num : undefined;
+};
+
+const parseGist = (segments: string[], expectedHost: string): ParseResult => {
+  const [user, ref] = segments;
+  if (!user || !ref) return fail(`Gist URLs must include the owner and ID, e.g. gist.${expectedHost}/owner/id`);
+  return { ok: true, data: { type: 'gist', user, repo: '', ref } };
+};
+
+/**
+ * Turns a GitHub link copied from the address bar, or a short form such as
+ * `owner/repo`, `owner/repo#123` or `owner/repo@v1.2.0`, into form fields.
+ *
+ * `owner/repo#123` is treated as an issue; GitHub resolves issue numbers that
+ * belong to pull requests on its own. Links to a profile are read as a user
+ * card, since the URL doesn't say whether the account is an organization.
+ */
+export function parseGitHubUrl(input: string, host: HostProfile = GITHUB_HOST): ParseResult {
+  const expectedHost = hostName(host);
+  const value = input.trim();
+  if (!value) return fail('Paste a GitHub URL');
+
+  const short = SHORT_FORM.exec(value);
+  // Hosts without a dot, such as `localhost`, still look like an owner.
+  if (short && short[1] !== expectedHost) {
+    const [, user, repo, num, tag] = short;
+    if (isReserved(user)) return reservedRoute(user);
+    if (num) {
+      const parsed = parseNumber(num);
+      if (!parsed) return fail('Issue number must be a positive integer');
+      return { ok: true, data: { type: 'issue', user, repo, num: parsed } };
+    }
+    if (tag) return { ok: true, data: { type: 'release', user, repo, tag } };
+    return { ok: true, data: { type: 'repository', user, repo } };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    return fail('Not a valid URL or owner/repo reference');
+  }
+
+  const actualHost = url.hostname.replace(/^www\./, '');
+  if (!actualHost.includes('.') && actualHost !== expectedHost) {
+    return fail('Not a valid URL or owner/repo reference');
+  }
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeSegment);
+  if (actualHost === `gist.${expectedHost}`) return parseGist(segments, expectedHost);
+  if (actualHost !== expectedHost) {
+    return fail(`Only ${expectedHost} URLs are supported, got ${url.hostname}; change the host to use another instance`);
+  }
+
+  // GitHub Enterprise Server serves gists from /gist on the same host.
+  if (segments[0] === 'gist') return parseGist(segments.slice(1), expectedHost);
+  if (segments[0] === 'orgs' && segments[1]) {
+    return { ok: true, data: { type: 'organization', user: segments[1], repo: '' } };
+  }
+  if (isReserved(segments[0])) return reservedRoute(segments[0]);
+  if (segments.length === 1) return { ok: true, data: { type: 'user', user: segments[0], repo: '' } };
+  if (segments.length < 2) {
+    return fail(`URL must point to a repository or profile, e.g. ${expectedHost}/owner/repo`);
+  }
+
+  const [user, rawRepo, section, ...rest] = segments;
+  const repo = rawRepo.replace(/\.git$/, '');
+
+  if (!section) return { ok: true, data: { type: 'repository', user, repo } };
+
+  switch (section) {
+    case 'issues':
+    case 'pull':
+    case 'discussions': {
+      const num = parseNumber(rest[0]);
+      if (!num) return fail('URL must include an issue, pull request or discussion number');
+      const type = section === 'issues' ? 'issue' : section === 'pull' ? 'pull-request' : 'discussion';
+      return { ok: true, data: { type, user, repo, num } };
+    }
+    case 'releases': {
+      if (rest[0] !== 'tag' || rest.length < 2) {
+        return fail('Release URLs must point to a tag, e.g. /releases/tag/v1.0.0');
+      }
+      return { ok: true, data: { type: 'release', user, repo, tag: rest.slice(1).join('/') } };
+    }
+    case 'commit': {
+      if (!rest[0]) return fail('Commit URLs must include a SHA, e.g. /commit/a1b2c3d');
+      return { ok: true, data: { type: 'commit', user, repo, ref: rest[0] } };
+    }
+    case 'compare': {
+      if (rest.length === 0) return fail('Compare URLs must include a range, e.g. /compare/main...feature');
+      return { ok: true, data: { type: 'compare', user, repo, ref: rest.join('/') } };
+    }
+    case 'blob': {
+      if (rest.length < 2) return fail('File URLs must include a ref and a path, e.g. /blob/main/README.md');
+      return { ok: true, data: { type: 'file', user, repo, ref: rest[0], path: rest.slice(1).join('/') } };
+    }
+    case 'milestone': {
+      const num = parseNumber(rest[0]);
+      if (!num) return fail('URL must include a milestone number');
+      return { ok: true, data: { type: 'milestone', user, repo, num } };
+    }
+    case 'actions': {
+      if (rest[0] !== 'runs') break;
+      const num = parseNumber(rest[1]);
+      if (!num) return fail('URL must include a workflow run ID');
+      return { ok: true, data: { type: 'workflow-run', user, repo, num } };
+    }
+  }
+
+  const label = UNSUPPORTED_SECTIONS[section];
+  return fail(label ? `${label} URLs are not supported` : `Unsupported GitHub URL: /${section}`);
+}
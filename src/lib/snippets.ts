@@ -0,0 +1,321 @@
+import { getCardType, hasField } from './cardTypes';
+import type { CardUrls } from './cards';
+import type { CardMetadata, ItemState } from './metadata';
+import type { FormData } from '../types';
+
+export type Alignment = 'left' | 'center' | 'right';
+
+export interface SnippetOptions {
+  /**
+   * Alt text template; `{owner}`, `{repo}`, `{type}`, `{num}`, `{tag}`, `{ref}`
+   * (e.g. `#123` or `@v1.0.0`) and `{title}` (`{owner}/{repo}{ref}`, followed by the
+   * item's title when metadata is available) are filled in from the card.
+   */
+  alt?: string;
+  width?: number;
+  height?: number;
+  /** Percentage of the image's natural size, used when neither width nor height is set. */
+  scale?: number;
+  align?: Alignment;
+  /** Open the link in a new tab. Defaults to true. */
+  newTab?: boolean;
+  /** Add `rel="noopener"` to HTML links. */
+  noopener?: boolean;
+}
+
+/** A card ready to be rendered: its URLs plus the fields the alt template can refer to. */
+export interface SnippetCard extends CardUrls {
+  data: FormData;
+  /** Present when metadata is turned on and the API answered. */
+  metadata?: CardMetadata;
+  /** The image's natural size; the OpenGraph card's when missing. */
+  imageSize?: ImageSize;
+}
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_ALT = '{title}';
+export const ALIGNMENTS: Alignment[] = ['left', 'center', 'right'];
+
+// Natural size of the images served by opengraph.githubassets.com.
+export const CARD_WIDTH = 1200;
+export const CARD_HEIGHT = 600;
+export const CARD_SIZE: ImageSize = { width: CARD_WIDTH, height: CARD_HEIGHT };
+// `github.com/{user}.png` redirects to the avatar at its default 460×460.
+export const AVATAR_SIZE: ImageSize = { width: 460, height: 460 };
+
+/** The line a person would use to describe the target: a repository's description, otherwise its title. */
+const headline = (data: FormData, metadata: CardMetadata) =>
+  (data.type === 'repository' ? metadata.description : metadata.title) ?? '';
+
+const cardName = (data: FormData) => {
+  const name = hasField(data.type, 'repo') ? `${data.user}/${data.repo}` : data.user;
+  return `${name}${getCardType(data.type).reference(data)}`;
+};
+
+export function formatAlt(template: string, data: FormData, metadata?: CardMetadata): string {
+  const ref = getCardType(data.type).reference(data);
+  const summary = metadata && headline(data, metadata);
+  const values: Record<string, string> = {
+    owner: data.user,
+    repo: data.repo,
+    type: data.type,
+    num: data.num ? String(data.num) : '',
+    tag: data.tag ?? '',
+    ref,
+    title: summary ? `${cardName(data)}: ${summary}` : cardName(data),
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+const altText = (card: SnippetCard, options: SnippetOptions) =>
+  formatAlt(options.alt || DEFAULT_ALT, card.data, card.metadata);
+
+/** Explicit dimensions win; otherwise `scale` is turned into pixels of the image's natural `size`. */
+export function resolveSize(
+  { width, height, scale }: SnippetOptions,
+  size: ImageSize = CARD_SIZE,
+): { width?: number; height?: number } {
+  if (width || height) return { width, height };
+  if (scale) {
+    return { width: Math.round((size.width * scale) / 100), height: Math.round((size.height * scale) / 100) };
+  }
+  return {};
+}
+
+const hasLayout = (options: SnippetOptions) =>
+  Boolean(options.width || options.height || options.scale || options.align);
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const htmlAttributes = (attributes: Record<string, string | number | undefined>) =>
+  Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => ` ${name}="${escapeHtml(String(value))}"`)
+    .join('');
+
+export function renderHtml(card: SnippetCard, options: SnippetOptions = {}): string {
+  const { width, height } = resolveSize(options, card.imageSize);
+  const newTab = options.newTab ?? true;
+  const link = htmlAttributes({
+    href: card.githubUrl,
+    target: newTab ? '_blank' : undefined,
+    rel: options.noopener ? 'noopener' : undefined,
+  });
+  const img = htmlAttributes({ src: card.imageUrl, alt: altText(card, options), width, height });
+  const html = `<a${link}><img${img} /></a>`;
+
+  return options.align ? `<p align="${options.align}">\n  ${html}\n</p>` : html;
+}
+
+/** Markdown has no syntax for size or alignment, so those fall back to inline HTML. */
+export function renderMarkdown(card: SnippetCard, options: SnippetOptions = {}): string {
+  if (hasLayout(options)) return renderHtml(card, options);
+
+  const alt = altText(card, options).replace(/([\\[\]])/g, '\\$1');
+  return `[![${alt}](${card.imageUrl})](${card.githubUrl})`;
+}
+
+/** reStructuredText can't open links in a new tab, so `newTab` and `noopener` don't apply. */
+export function renderRst(card: SnippetCard, options: SnippetOptions = {}): string {
+  const lines = [`.. image:: ${card.imageUrl}`, `   :alt: ${altText(card, options)}`];
+  if (options.width || options.height) {
+    if (options.width) lines.push(`   :width: ${options.width}px`);
+    if (options.height) lines.push(`   :height: ${options.height}px`);
+  } else if (options.scale) {
+    lines.push(`   :scale: ${options.scale} %`);
+  }
+  if (options.align) lines.push(`   :align: ${options.align}`);
+  lines.push(`   :target: ${card.githubUrl}`);
+  return lines.join('\n');
+}
+
+/**
+ * Aligned images use the block macro, which is the only one that accepts
+ * `align`. Asciidoctor adds `rel="noopener"` itself for `window=_blank`.
+ */
+export function renderAsciidoc(card: SnippetCard, options: SnippetOptions = {}): string {
+  const { width, height } = resolveSize(options, card.imageSize);
+  const alt = altText(card, options);
+  const attributes = [
+    /[,"\]]/.test(alt) ? `"${alt.replace(/"/g, '\\"')}"` : alt,
+    width && `width=${width}`,
+    height && `height=${height}`,
+    options.align && `align=${options.align}`,
+    `link="${card.githubUrl}"`,
+    (options.newTab ?? true) && 'window=_blank',
+  ].filter(Boolean);
+
+  return `image${options.align ? '::' : ':'}${card.imageUrl}[${attributes.join(',')}]`;
+}
+
+const jsxAttributes = (attributes: Record<string, string | number | undefined>) =>
+  Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) =>
+      typeof value === 'string' && !value.includes('"') ? ` ${name}="${value}"` : ` ${name}={${JSON.stringify(value)}}`,
+    )
+    .join('');
+
+/** JSX for MDX pages such as Docusaurus; sizes become numeric props and alignment a style object. */
+export function renderMdx(card: SnippetCard, options: SnippetOptions = {}): string {
+  const { width, height } = resolveSize(options, card.imageSize);
+  const newTab = options.newTab ?? true;
+  const link = jsxAttributes({
+    href: card.githubUrl,
+    target: newTab ? '_blank' : undefined,
+    rel: options.noopener ? 'noopener' : undefined,
+  });
+  const img = jsxAttributes({ src: card.imageUrl, alt: altText(card, options), width, height });
+  const jsx = `<a${link}><img${img} /></a>`;
+
+  return options.align ? `<div style={{ textAlign: '${options.align}' }}>\n  ${jsx}\n</div>` : jsx;
+}
+
+/** BBCode has no alt text or link target; alignment uses the common `[center]`-style tags. */
+export function renderBbcode(card: SnippetCard, options: SnippetOptions = {}): string {
+  const { width, height } = resolveSize(options, card.imageSize);
+  const size = `${width ? ` width=${width}` : ''}${height ? ` height=${height}` : ''}`;
+  const bbcode = `[url=${card.githubUrl}][img${size}]${card.imageUrl}[/img][/url]`;
+
+  return options.align ? `[${options.align}]${bbcode}[/${options.align}]` : bbcode;
+}
+
+const TEXTILE_ALIGN: Record<Alignment, string> = { left: '<', center: '=', right: '>' };
+
+export function renderTextile(card: SnippetCard, options: SnippetOptions = {}): string {
+  const { width, height } = resolveSize(options, card.imageSize);
+  const style = [width && `width:${width}px`, height && `height:${height}px`].filter(Boolean).join(';');
+  const align = options.align ? TEXTILE_ALIGN[options.align] : '';
+  const alt = altText(card, options).replace(/[()]/g, '');
+
+  return `!${align}${style ? `{${style}}` : ''}${card.imageUrl}(${alt})!:${card.githubUrl}`;
+}
+
+/** Org-mode links whose description is an image URL export as linked images; `#+ATTR_HTML` carries the rest. */
+export function renderOrg(card: SnippetCard, options: SnippetOptions = {}): string {
+  const { width, height } = resolveSize(options, card.imageSize);
+  const attributes = [
+    `:alt ${altText(card, options)}`,
+    width && `:width ${width}`,
+    height && `:height ${height}`,
+    options.align && `:align ${options.align}`,
+  ].filter(Boolean);
+
+  return `#+ATTR_HTML: ${attributes.join(' ')}\n[[${card.githubUrl}][${card.imageUrl}]]`;
+}
+
+/**
+ * MediaWiki only renders external images as link text when `$wgAllowExternalImages`
+ * is enabled, and offers no alt text or size for them.
+ */
+export function renderMediaWiki(card: SnippetCard, options: SnippetOptions = {}): string {
+  const wikitext = `[${card.githubUrl} ${card.imageUrl}]`;
+  return options.align ? `<div style="text-align: ${options.align};">${wikitext}</div>` : wikitext;
+}
+
+/** Open Graph and Twitter card tags for a page's `<head>`; they always describe the full-size image. */
+export function renderMetaTags(card: SnippetCard, options: SnippetOptions = {}): string {
+  const alt = altText(card, options);
+  const size = card.imageSize ?? CARD_SIZE;
+  const tags: [string, string, string | number][] = [
+    ['property', 'og:url', card.githubUrl],
+    ['property', 'og:image', card.imageUrl],
+    ['property', 'og:image:alt', alt],
+    ['property', 'og:image:width', size.width],
+    ['property', 'og:image:height', size.height],
+    // Square images such as avatars suit the small summary card better than the wide one.
+    ['name', 'twitter:card', size.width > size.height ? 'summary_large_image' : 'summary'],
+    ['name', 'twitter:image', card.imageUrl],
+    ['name', 'twitter:image:alt', alt],
+  ];
+  if (card.metadata) {
+    tags.unshift(['property', 'og:title', cardName(card.data)]);
+    const summary = headline(card.data, card.metadata);
+    if (summary) tags.splice(1, 0, ['property', 'og:description', summary]);
+  }
+  return tags.map(([kind, key, value]) => `<meta${htmlAttributes({ [kind]: key, content: value })} />`).join('\n');
+}
+
+const STATE_COLORS: Record<ItemState, string> = {
+  open: '2da44e',
+  closed: 'cf222e',
+  merged: '8250df',
+  draft: '6e7781',
+  published: '2da44e',
+  prerelease: 'bf8700',
+};
+
+/** A shields.io badge for the item's state, e.g. a green "open". */
+export function stateBadgeUrl(state: ItemState): string {
+  return `https://img.shields.io/badge/${state}-${STATE_COLORS[state]}`;
+}
+
+/** Stars, forks, language, author and last update, in that order, skipping what's unknown. */
+export function metadataStats(metadata: CardMetadata): string[] {
+  const count = (value: number) => value.toLocaleString('en-US');
+  return [
+    metadata.stars !== undefined && `★ ${count(metadata.stars)}`,
+    metadata.forks !== undefined && `⑂ ${count(metadata.forks)}`,
+    metadata.language,
+    metadata.author && `@${metadata.author}`,
+    metadata.updatedAt && `updated ${metadata.updatedAt.slice(0, 10)}`,
+  ].filter((value): value is string => Boolean(value));
+}
+
+const escapeMarkdown = (value: string) => value.replace(/([\\`*_[\]<>|])/g, '\\$1');
+
+/** The image followed by a title line with a status badge, then stats and labels. Plain Markdown without metadata. */
+export function renderMarkdownCard(card: SnippetCard, options: SnippetOptions = {}): string {
+  const image = renderMarkdown(card, options);
+  const { metadata } = card;
+  if (!metadata) return image;
+
+  const summary = headline(card.data, metadata);
+  const title = [
+    `**[${escapeMarkdown(cardName(card.data))}](${card.githubUrl})**`,
+    summary && escapeMarkdown(summary),
+    metadata.state && `![${metadata.state}](${stateBadgeUrl(metadata.state)})`,
+  ].filter(Boolean);
+  const details = [
+    ...metadataStats(metadata).map(escapeMarkdown),
+    ...metadata.labels.map((label) => `\`${label.replace(/`/g, '')}\``),
+  ];
+
+  return [image, title.join(' '), details.join(' · ')].filter(Boolean).join('\n\n');
+}
+
+/** The image with the title, state, stats and labels underneath. Plain HTML without metadata. */
+export function renderHtmlCard(card: SnippetCard, options: SnippetOptions = {}): string {
+  const { metadata } = card;
+  if (!metadata) return renderHtml(card, options);
+
+  const newTab = options.newTab ?? true;
+  const link = htmlAttributes({
+    href: card.githubUrl,
+    target: newTab ? '_blank' : undefined,
+    rel: options.noopener ? 'noopener' : undefined,
+  });
+  const summary = headline(card.data, metadata);
+  const title = [
+    `<strong><a${link}>${escapeHtml(cardName(card.data))}</a></strong>`,
+    summary && escapeHtml(summary),
+    metadata.state && `<img${htmlAttributes({ src: stateBadgeUrl(metadata.state), alt: metadata.state })} />`,
+  ].filter(Boolean);
+  const stats = metadataStats(metadata).map(escapeHtml);
+  const labels = metadata.labels.map((label) => `<code>${escapeHtml(label)}</code>`);
+
+  const lines = [
+    renderHtml(card, { ...options, align: undefined }),
+    `<p>${title.join(' ')}</p>`,
+    stats.length > 0 && `<p>${stats.join(' · ')}</p>`,
+    labels.length > 0 && `<p>${labels.join(' ')}</p>`,
+  ].filter(Boolean);
+  const container = htmlAttributes({ class: 'github-card', align: options.align });
+
+  return `<div${container}>\n${lines.map((line) => `  ${line}`).join('\n')}\n</div>`;
+}
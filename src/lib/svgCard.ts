@@ -0,0 +1,108 @@
+import { getCardType, hasField } from './cardTypes';
+import { CARD_HEIGHT, CARD_WIDTH } from './snippets';
+import type { FormData } from '../types';
+
+export type CardTheme = 'light' | 'dark';
+
+export interface SvgCardOptions {
+  theme?: CardTheme;
+  title?: string;
+  description?: string;
+  /** Shown in the footer. Defaults to `github.com`. */
+  host?: string;
+}
+
+export const CARD_THEMES: CardTheme[] = ['dark', 'light'];
+
+const PALETTES: Record<CardTheme, { background: string; border: string; text: string; muted: string }> = {
+  dark: { background: '#0d1117', border: '#30363d', text: '#e6edf3', muted: '#7d8590' },
+  light: { background: '#ffffff', border: '#d0d7de', text: '#1f2328', muted: '#656d76' },
+};
+
+const FONT = `-apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif`;
+const PADDING = 80;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Greedy word wrap by character count; SVG can't measure text, so `maxChars`
+ * is tuned per font size. The last line gets an ellipsis when text is cut off.
+ */
+export function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.trim().split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    current = word.length > maxChars ? `${word.slice(0, maxChars - 1)}…` : word;
+  }
+  if (current) lines.push(current);
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, maxChars - 1).trimEnd()}…`;
+  return kept;
+}
+
+const textLines = (lines: string[], x: number, y: number, lineHeight: number, attributes: string) =>
+  lines
+    .map((line, index) => `<text x="${x}" y="${y + index * lineHeight}" ${attributes}>${escapeXml(line)}</text>`)
+    .join('\n  ');
+
+/** A GitHub-style card drawn without any network access, at the same size as the OpenGraph image. */
+export function renderSvgCard(data: FormData, options: SvgCardOptions = {}): string {
+  const palette = PALETTES[options.theme ?? 'dark'];
+  const definition = getCardType(data.type);
+  const accent = definition.color;
+  const label = definition.label;
+  const fullRef = definition.reference(data).trim();
+  const ref = fullRef.length > 32 ? `${fullRef.slice(0, 31)}…` : fullRef;
+  const repo = hasField(data.type, 'repo') ? data.repo : '';
+  const nameLength = repo ? data.user.length + repo.length + 1 : data.user.length;
+  const badgeWidth = label.length * 15 + 48;
+
+  // Shrink long names so they fit on one line; 0.55em is a rough average glyph width.
+  const nameSize = Math.min(56, Math.floor((CARD_WIDTH - PADDING * 2) / (nameLength * 0.55)));
+
+  const title = options.title ? wrapText(options.title, 36, 2) : [];
+  const titleY = 330;
+  const descriptionY = titleY + (title.length > 0 ? title.length * 60 + 10 : 0);
+  const descriptionLines = Math.min(3, Math.floor((500 - descriptionY) / 40) + 1);
+  const description = options.description ? wrapText(options.description, 64, descriptionLines) : [];
+
+  const elements = [
+    `<rect width="${CARD_WIDTH}" height="${CARD_HEIGHT}" fill="${palette.background}" />`,
+    `<rect x="0.5" y="0.5" width="${CARD_WIDTH - 1}" height="${CARD_HEIGHT - 1}" fill="none" stroke="${palette.border}" />`,
+    `<rect x="${PADDING}" y="${PADDING}" width="${badgeWidth}" height="44" rx="22" fill="${accent}" />`,
+    `<text x="${PADDING + badgeWidth / 2}" y="${PADDING + 30}" font-size="24" font-weight="600" fill="#ffffff" text-anchor="middle">${escapeXml(label)}</text>`,
+    `<text x="${PADDING}" y="220" font-size="${nameSize}" fill="${palette.text}">${
+      repo
+        ? `<tspan fill="${palette.muted}">${escapeXml(data.user)}/</tspan><tspan font-weight="700">${escapeXml(repo)}</tspan>`
+        : `<tspan font-weight="700">${escapeXml(data.user)}</tspan>`
+    }</text>`,
+    ref &&
+      `<text x="${CARD_WIDTH - PADDING}" y="${PADDING + 34}" font-size="40" font-weight="600" fill="${palette.muted}" text-anchor="end">${escapeXml(ref)}</text>`,
+    textLines(title, PADDING, titleY, 60, `font-size="48" font-weight="600" fill="${palette.text}"`),
+    textLines(description, PADDING, descriptionY, 40, `font-size="28" fill="${palette.muted}"`),
+    `<text x="${PADDING}" y="${CARD_HEIGHT - 56}" font-size="24" fill="${palette.muted}">${escapeXml(options.host ?? 'github.com')}</text>`,
+    `<rect x="0" y="${CARD_HEIGHT - 16}" width="${CARD_WIDTH}" height="16" fill="${accent}" />`,
+  ].filter(Boolean);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" viewBox="0 0 ${CARD_WIDTH} ${CARD_HEIGHT}" font-family="${FONT}">
+  ${elements.join('\n  ')}
+</svg>`;
+}
+
+export function svgDataUri(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
@@ -0,0 +1,35 @@
+import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import Popup from './Popup.tsx';
+import { APP_URL } from './lib';
+import './index.css';
+
+// The parts of the extension API the popup uses; only present when running as an extension.
+declare const chrome:
+  | { tabs?: { query(query: { active: boolean; currentWindow: boolean }): Promise<{ url?: string }[]> } }
+  | undefined;
+
+/** The bookmarklet passes the page in `?url=`; the extension asks for the active tab, which `activeTab` allows. */
+async function currentPageUrl(): Promise<string> {
+  const fromQuery = new URLSearchParams(window.location.search).get('url');
+  if (fromQuery) return fromQuery;
+  if (typeof chrome !== 'undefined' && chrome?.tabs) {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    return tab?.url ?? '';
+  }
+  return '';
+}
+
+// Served next to the web app, the popup links to it; inside the extension it links to the deployed site.
+const appUrl = window.location.protocol.startsWith('http') ? new URL('.', window.location.href).href : `${APP_URL}/`;
+
+// If the tab can't be read, open empty so the URL can still be pasted.
+currentPageUrl()
+  .catch(() => '')
+  .then((pageUrl) => {
+    createRoot(document.getElementById('root')!).render(
+      <StrictMode>
+        <Popup pageUrl={pageUrl} appUrl={appUrl} />
+      </StrictMode>
+    );
+  });
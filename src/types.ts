@@ -0,0 +1,32 @@
+export type CardType =
+  | 'repository'
+  | 'issue'
+  | 'pull-request'
+  | 'discussion'
+  | 'release'
+  | 'commit'
+  | 'compare'
+  | 'file'
+  | 'milestone'
+  | 'workflow-run'
+  | 'user'
+  | 'organization'
+  | 'gist';
+
+export interface FormData {
+  type: CardType;
+  user: string;
+  repo: string;
+  num?: number;
+  tag?: string;
+  /** Commit SHA, compare range, branch or gist ID, depending on `type`. */
+  ref?: string;
+  /** File path within the repository. */
+  path?: string;
+}
+
+/** Id of a format registered with `registerFormat`, e.g. `markdown`. */
+export type OutputFormat = string;
+
+/** Every registered format's snippet, keyed by format id. */
+export type CodeData = Record<OutputFormat, string>;
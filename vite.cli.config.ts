@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite';
+
+// Builds the github-card command-line tool into dist/cli.
+export default defineConfig({
+  build: {
+    ssr: 'cli/index.ts',
+    outDir: 'dist/cli',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'github-card.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
@@ -2,9 +2,24 @@ import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
 // https://vitejs.dev/config/
-export default defineConfig({
+// `vite build --mode extension` builds only the popup, with extension/manifest.json, into dist/extension.
+export default defineConfig(({ mode }) => ({
   plugins: [react()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
-});
+  ...(mode === 'extension'
+    ? {
+        base: './',
+        publicDir: 'extension',
+        build: {
+          outDir: 'dist/extension',
+          rollupOptions: { input: 'popup.html' },
+        },
+      }
+    : {
+        build: {
+          rollupOptions: { input: ['index.html', 'popup.html'] },
+        },
+      }),
+}));